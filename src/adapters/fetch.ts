@@ -0,0 +1,103 @@
+import type { Instance } from "../../../njses";
+import { HTTP, Receive, Send } from "../decorators";
+import type { HTTPModule } from "../module";
+import type { HTTPNormalizedRequest, HTTPNormalizedResponse } from "../types";
+import { parseCookies, serializeCookie } from "../util";
+
+function isBodyInit(body: any): body is BodyInit {
+    return (
+        typeof body === "string" ||
+        body instanceof ArrayBuffer ||
+        ArrayBuffer.isView(body) ||
+        body instanceof ReadableStream ||
+        body instanceof Blob ||
+        body instanceof FormData ||
+        body instanceof URLSearchParams
+    );
+}
+
+function toReadableStream(iterable: AsyncIterable<any>): ReadableStream {
+    const encoder = new TextEncoder();
+    const iterator = iterable[Symbol.asyncIterator]();
+
+    return new ReadableStream({
+        async pull(controller) {
+            const { value, done } = await iterator.next();
+            if (done) controller.close();
+            else controller.enqueue(typeof value === "string" ? encoder.encode(value) : value);
+        },
+        async cancel(reason) {
+            await iterator.return?.(reason);
+        },
+    });
+}
+
+/**
+ * Receives WHATWG `Request`s and sends `Response`s. Pass the `Request` to `HTTPModule.incoming`.
+ *
+ * The request body is not read, but received as `ReadableStream`. Use a `@BodyParser` to read it.
+ * The signal of the `Request` is passed on. Runtimes like Deno and Bun abort it, if the client disconnects.
+ * The response body may be any `BodyInit`, an async iterable or any other value, which is sent as JSON.
+ */
+@HTTP()
+export class FetchHTTPAdapter {
+    @Receive
+    receive(request: HTTPNormalizedRequest): Partial<HTTPNormalizedRequest> {
+        const req = request.originalRequest as Request;
+        const url = new URL(req.url);
+
+        return {
+            method: req.method.toUpperCase(),
+            path: url.pathname,
+            searchParams: url.searchParams,
+            headers: new Headers(req.headers),
+            cookies: parseCookies(req.headers.get("Cookie")),
+            signal: req.signal,
+            body: req.body ?? undefined,
+        };
+    }
+
+    @Send
+    send(request: HTTPNormalizedRequest, response: HTTPNormalizedResponse): Response {
+        const headers = new Headers(response.headers);
+        let body: BodyInit | null = null;
+
+        if (response.body === undefined || response.body === null) body = null;
+        else if (isBodyInit(response.body)) body = response.body;
+        else if (typeof response.body[Symbol.asyncIterator] === "function")
+            body = toReadableStream(response.body);
+        else {
+            body = JSON.stringify(response.body);
+            if (!headers.has("Content-Type")) headers.set("Content-Type", "application/json");
+        }
+
+        for (const cookie of response.cookies ?? []) headers.append("Set-Cookie", serializeCookie(cookie));
+
+        return new Response(body, { status: response.status ?? 200, headers });
+    }
+}
+
+/**
+ * The http module is passed along with the handler service, as the handler service does not reference it.
+ * @param onError Called with errors, that could not be sent as error response. These are answered with a 500.
+ * Ignored by default
+ * @returns A fetch handler, that dispatches requests to `HTTPModule.incoming`.
+ * Requires the `FetchHTTPAdapter` service.
+ *
+ * @example
+ * export default { fetch: toFetchHandler(httpModule, handlerService) };
+ */
+export function toFetchHandler(
+    httpModule: HTTPModule,
+    handlerService: Instance,
+    onError: (err: unknown) => void = () => {}
+): (request: Request) => Promise<Response> {
+    return async (request) => {
+        try {
+            return (await httpModule.incoming(handlerService, request)) as Response;
+        } catch (err) {
+            onError(err);
+            return new Response(null, { status: 500 });
+        }
+    };
+}
@@ -0,0 +1,240 @@
+import type { Instance } from "../../../njses";
+import { HTTP, Receive, Send } from "../decorators";
+import type { HTTPModule } from "../module";
+import type { HTTPNormalizedRequest, HTTPNormalizedResponse } from "../types";
+import { parseCookies, serializeCookie } from "../util";
+
+/**
+ * API Gateway REST API (payload version 1.0) proxy event and Application Load Balancer event
+ */
+export type APIGatewayProxyEventV1 = {
+    httpMethod: string;
+    path: string;
+    headers?: Record<string, string | undefined> | null;
+    multiValueHeaders?: Record<string, string[] | undefined> | null;
+    queryStringParameters?: Record<string, string | undefined> | null;
+    multiValueQueryStringParameters?: Record<string, string[] | undefined> | null;
+    body?: string | null;
+    isBase64Encoded?: boolean;
+    requestContext?: {
+        identity?: { sourceIp?: string };
+        /** Set for Application Load Balancer events */
+        elb?: { targetGroupArn: string };
+        [key: string]: unknown;
+    };
+};
+
+/**
+ * API Gateway HTTP API (payload version 2.0) and Lambda Function URL event
+ */
+export type APIGatewayProxyEventV2 = {
+    version: "2.0";
+    rawPath: string;
+    rawQueryString?: string;
+    /** Repeated headers are joined with commas */
+    headers?: Record<string, string | undefined>;
+    cookies?: string[];
+    body?: string;
+    isBase64Encoded?: boolean;
+    requestContext: { http: { method: string; path: string; sourceIp?: string } };
+};
+
+export type LambdaHTTPEvent = APIGatewayProxyEventV1 | APIGatewayProxyEventV2;
+
+export type APIGatewayProxyResultV1 = {
+    statusCode: number;
+    headers?: Record<string, string>;
+    multiValueHeaders?: Record<string, string[]>;
+    body: string;
+    isBase64Encoded?: boolean;
+};
+
+export type APIGatewayProxyResultV2 = {
+    statusCode: number;
+    headers?: Record<string, string>;
+    cookies?: string[];
+    body: string;
+    isBase64Encoded?: boolean;
+};
+
+/**
+ * The original request of the lambda adapter. Pass it to `HTTPModule.incoming`.
+ */
+export type LambdaHTTPRequest = {
+    event: LambdaHTTPEvent;
+    /** The lambda context */
+    context?: unknown;
+};
+
+function isV2(event: LambdaHTTPEvent): event is APIGatewayProxyEventV2 {
+    return (event as APIGatewayProxyEventV2).version === "2.0";
+}
+
+function isALB(event: APIGatewayProxyEventV1): boolean {
+    return !!event.requestContext?.elb;
+}
+
+function decodeQueryValue(value: string): string {
+    try {
+        return decodeURIComponent(value.replace(/\+/g, " "));
+    } catch {
+        return value;
+    }
+}
+
+function decodeBody(body: string | null | undefined, isBase64Encoded: boolean | undefined) {
+    if (body == null || body === "") return undefined;
+    return isBase64Encoded ? Buffer.from(body, "base64") : body;
+}
+
+function receiveV1(event: APIGatewayProxyEventV1): Partial<HTTPNormalizedRequest> {
+    const headers = new Headers();
+    if (event.multiValueHeaders) {
+        for (const [name, values] of Object.entries(event.multiValueHeaders)) {
+            values?.forEach((value) => headers.append(name, value));
+        }
+    } else {
+        for (const [name, value] of Object.entries(event.headers ?? {})) {
+            if (value !== undefined) headers.set(name, value);
+        }
+    }
+
+    // The load balancer passes the query string parameters encoded
+    const decode = isALB(event) ? decodeQueryValue : (value: string) => value;
+    const searchParams = new URLSearchParams();
+    if (event.multiValueQueryStringParameters) {
+        for (const [name, values] of Object.entries(event.multiValueQueryStringParameters)) {
+            values?.forEach((value) => searchParams.append(decode(name), decode(value)));
+        }
+    } else {
+        for (const [name, value] of Object.entries(event.queryStringParameters ?? {})) {
+            if (value !== undefined) searchParams.append(decode(name), decode(value));
+        }
+    }
+
+    return {
+        method: event.httpMethod.toUpperCase(),
+        path: event.path,
+        ip: event.requestContext?.identity?.sourceIp,
+        headers,
+        searchParams,
+        cookies: parseCookies(headers.get("Cookie")),
+        body: decodeBody(event.body, event.isBase64Encoded),
+    };
+}
+
+function receiveV2(event: APIGatewayProxyEventV2): Partial<HTTPNormalizedRequest> {
+    const headers = new Headers();
+    for (const [name, value] of Object.entries(event.headers ?? {})) {
+        if (value !== undefined) headers.set(name, value);
+    }
+
+    // API Gateway moves the cookies from the headers to the `cookies` array
+    if (event.cookies?.length) headers.set("Cookie", event.cookies.join("; "));
+
+    return {
+        method: event.requestContext.http.method.toUpperCase(),
+        path: event.rawPath || event.requestContext.http.path,
+        ip: event.requestContext.http.sourceIp,
+        headers,
+        searchParams: new URLSearchParams(event.rawQueryString ?? ""),
+        cookies: parseCookies(headers.get("Cookie")),
+        body: decodeBody(event.body, event.isBase64Encoded),
+    };
+}
+
+/**
+ * @returns The body as string or, if it is binary, base64 encoded
+ */
+async function encodeBody(body: any, headers: Headers): Promise<{ body: string; isBase64Encoded: boolean }> {
+    if (body === undefined || body === null) return { body: "", isBase64Encoded: false };
+    if (typeof body === "string") return { body, isBase64Encoded: false };
+    if (body instanceof ReadableStream) body = new Uint8Array(await new Response(body).arrayBuffer());
+    else if (typeof body[Symbol.asyncIterator] === "function") {
+        const chunks: Buffer[] = [];
+        for await (const chunk of body) chunks.push(Buffer.from(chunk));
+        body = Buffer.concat(chunks);
+    }
+    if (body instanceof Uint8Array)
+        return { body: Buffer.from(body).toString("base64"), isBase64Encoded: true };
+
+    if (!headers.has("Content-Type")) headers.set("Content-Type", "application/json");
+    return { body: JSON.stringify(body), isBase64Encoded: false };
+}
+
+/**
+ * Receives API Gateway REST API (v1), HTTP API (v2), Lambda Function URL and Application Load Balancer events
+ * and sends the matching proxy results.
+ *
+ * Binary request bodies are received as `Buffer`, others as string. Use a `@BodyParser` to parse them.
+ * Load balancers send multiple cookies only if multi value headers are enabled for the target group.
+ */
+@HTTP()
+export class LambdaHTTPAdapter {
+    @Receive
+    receive(request: HTTPNormalizedRequest): Partial<HTTPNormalizedRequest> {
+        const { event } = request.originalRequest as LambdaHTTPRequest;
+        return isV2(event) ? receiveV2(event) : receiveV1(event);
+    }
+
+    @Send
+    async send(
+        request: HTTPNormalizedRequest,
+        response: HTTPNormalizedResponse
+    ): Promise<APIGatewayProxyResultV1 | APIGatewayProxyResultV2> {
+        const { event } = request.originalRequest as LambdaHTTPRequest;
+        const headers = new Headers(response.headers);
+        const { body, isBase64Encoded } = await encodeBody(response.body, headers);
+        const cookies = [...headers.getSetCookie(), ...(response.cookies ?? []).map(serializeCookie)];
+        const statusCode = response.status ?? 200;
+
+        headers.delete("Set-Cookie");
+        const singleHeaders = Object.fromEntries(headers.entries());
+
+        if (isV2(event)) {
+            return { statusCode, headers: singleHeaders, cookies, body, isBase64Encoded };
+        }
+
+        // Load balancers with multi value headers ignore `headers`
+        if (isALB(event) && event.multiValueHeaders) {
+            const multiValueHeaders: Record<string, string[]> = {};
+            headers.forEach((value, name) => (multiValueHeaders[name] = [value]));
+            if (cookies.length) multiValueHeaders["set-cookie"] = cookies;
+            return { statusCode, multiValueHeaders, body, isBase64Encoded };
+        }
+
+        return {
+            statusCode,
+            headers: singleHeaders,
+            multiValueHeaders: cookies.length ? { "Set-Cookie": cookies } : {},
+            body,
+            isBase64Encoded,
+        };
+    }
+}
+
+/**
+ * @param onError Called with errors, that could not be sent as error response. Answered with a 500 result.
+ * Ignored by default
+ * @returns A lambda handler, that dispatches API Gateway, Function URL and load balancer events
+ * to `HTTPModule.incoming`. Requires the `LambdaHTTPAdapter` service.
+ */
+export function toLambdaHandler(
+    httpModule: HTTPModule,
+    handlerService: Instance,
+    onError: (err: unknown) => void = () => {}
+) {
+    return async (
+        event: LambdaHTTPEvent,
+        context?: unknown
+    ): Promise<APIGatewayProxyResultV1 | APIGatewayProxyResultV2> => {
+        const request: LambdaHTTPRequest = { event, context };
+        try {
+            return (await httpModule.incoming(handlerService, request)) as
+                APIGatewayProxyResultV1 | APIGatewayProxyResultV2;
+        } catch (err) {
+            onError(err);
+            return { statusCode: 500, body: "" };
+        }
+    };
+}
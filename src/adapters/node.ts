@@ -0,0 +1,190 @@
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from "node:http";
+import type { Http2ServerRequest, Http2ServerResponse } from "node:http2";
+import { Readable } from "node:stream";
+import { pipeline } from "node:stream/promises";
+import type { ReadableStream as NodeReadableStream } from "node:stream/web";
+import type { Instance } from "../../../njses";
+import { HTTP, Receive, Send } from "../decorators";
+import type { HTTPModule } from "../module";
+import type { HTTPNormalizedRequest, HTTPNormalizedResponse } from "../types";
+import { parseCookies, serializeCookie } from "../util";
+import { createNodeUpgradeHandler, type NodeWebSocketRequest } from "./websocket";
+
+/**
+ * The original request of the node adapter. Pass it to `HTTPModule.incoming`.
+ */
+export type NodeHTTPRequest = {
+    req: IncomingMessage | Http2ServerRequest;
+    res: ServerResponse | Http2ServerResponse;
+    /**
+     * Called with errors of streamed response bodies. The response is started then and can not be replaced
+     * by an error response. Without callback these errors are thrown by the sender.
+     */
+    onError?: (err: unknown) => void;
+};
+
+const METHODS_WITHOUT_BODY = ["GET", "HEAD", "OPTIONS"];
+
+/**
+ * @returns A signal, that is aborted if the client disconnects before the response is finished.
+ * WebSocket upgrades have no response, their signal is aborted when the socket closes.
+ */
+function createDisconnectSignal(request: NodeHTTPRequest | NodeWebSocketRequest): AbortSignal {
+    const controller = new AbortController();
+    if ("res" in request) {
+        const { res } = request;
+        res.once("close", () => {
+            if (!res.writableFinished) controller.abort();
+        });
+    } else request.socket.once("close", () => controller.abort());
+    return controller.signal;
+}
+
+function toHeaders(req: NodeHTTPRequest["req"]): Headers {
+    const headers = new Headers();
+    for (const [name, value] of Object.entries(req.headers)) {
+        // Skip http2 pseudo headers
+        if (name.startsWith(":") || value === undefined) continue;
+        if (Array.isArray(value)) value.forEach((v) => headers.append(name, v));
+        else headers.set(name, value);
+    }
+    return headers;
+}
+
+/**
+ * Receives `node:http` and `node:http2` (compatibility API) requests and sends the responses.
+ *
+ * The request body is not read, but received as `ReadableStream`. Use a `@BodyParser` to read it.
+ * The signal of the request is aborted, if the client disconnects.
+ * The response body may be a string, a `Uint8Array`, a node or web stream, an async iterable or
+ * any other value, which is sent as JSON.
+ */
+@HTTP()
+export class NodeHTTPAdapter {
+    @Receive
+    async receive(request: HTTPNormalizedRequest): Promise<Partial<HTTPNormalizedRequest>> {
+        const original = request.originalRequest as NodeHTTPRequest | NodeWebSocketRequest;
+        const { req } = original;
+        const url = new URL(req.url ?? "/", "http://localhost");
+        const method = (req.method ?? "GET").toUpperCase();
+        const headers = toHeaders(req);
+
+        return {
+            method,
+            path: url.pathname,
+            ip: req.socket?.remoteAddress,
+            searchParams: url.searchParams,
+            headers,
+            cookies: parseCookies(headers.get("Cookie")),
+            signal: createDisconnectSignal(original),
+            body: METHODS_WITHOUT_BODY.includes(method)
+                ? undefined
+                : (Readable.toWeb(req as Readable) as ReadableStream),
+        };
+    }
+
+    @Send
+    async send(request: HTTPNormalizedRequest, response: HTTPNormalizedResponse) {
+        const { res } = request.originalRequest as NodeHTTPRequest;
+        const headers = new Headers(response.headers);
+        let body = response.body;
+
+        if (body !== undefined && !isRaw(body)) {
+            body = JSON.stringify(body);
+            if (!headers.has("Content-Type")) headers.set("Content-Type", "application/json");
+        }
+
+        res.statusCode = response.status ?? 200;
+        headers.forEach((value, name) => {
+            if (name !== "set-cookie") res.setHeader(name, value);
+        });
+
+        const setCookies = [...headers.getSetCookie(), ...(response.cookies ?? []).map(serializeCookie)];
+        if (setCookies.length) res.setHeader("Set-Cookie", setCookies);
+
+        if (body === undefined || body === null) res.end();
+        else if (typeof body === "string" || body instanceof Uint8Array) res.end(body);
+        else {
+            // Send the headers before the first chunk, e.g. for event streams
+            if ("flushHeaders" in res) res.flushHeaders();
+            else res.writeHead(res.statusCode);
+            try {
+                // Respects backpressure and destroys the body if the client disconnects
+                await pipeline(toReadable(body), res as NodeJS.WritableStream);
+            } catch (err) {
+                // The client disconnected
+                if ((err as NodeJS.ErrnoException).code === "ERR_STREAM_PREMATURE_CLOSE") return res;
+
+                const { onError } = request.originalRequest as NodeHTTPRequest;
+                if (!onError) throw err;
+                onError(err);
+            }
+        }
+
+        return res;
+    }
+}
+
+function isRaw(body: any): boolean {
+    return (
+        typeof body === "string" ||
+        body instanceof Uint8Array ||
+        body instanceof Readable ||
+        body instanceof ReadableStream ||
+        typeof body?.[Symbol.asyncIterator] === "function"
+    );
+}
+
+function toReadable(body: Readable | ReadableStream | AsyncIterable<any>): Readable {
+    if (body instanceof Readable) return body;
+    if (body instanceof ReadableStream) return Readable.fromWeb(body as NodeReadableStream);
+    return Readable.from(body);
+}
+
+/**
+ * @param onError Called with errors of streamed response bodies and errors, that could not be sent
+ * as error response. Ignored by default
+ * @returns A `node:http` or `node:http2` request listener, that dispatches requests to `HTTPModule.incoming`.
+ * Requires the `NodeHTTPAdapter` service.
+ */
+export function createNodeHandler(
+    httpModule: HTTPModule,
+    handlerService: Instance,
+    onError: (err: unknown) => void = () => {}
+) {
+    return async (req: NodeHTTPRequest["req"], res: NodeHTTPRequest["res"]) => {
+        try {
+            await httpModule.incoming(handlerService, { req, res, onError } as NodeHTTPRequest);
+        } catch (err) {
+            onError(err);
+            // Do not end a started response, the client would take it as complete
+            if (res.headersSent) res.destroy();
+            else {
+                res.statusCode = 500;
+                res.end();
+            }
+        }
+    };
+}
+
+/**
+ * Starts a `node:http` server, that dispatches requests to `HTTPModule.incoming`
+ * and WebSocket upgrades to `HTTPModule.upgrade`.
+ * Requires the `NodeHTTPAdapter` service.
+ */
+export function listen(
+    httpModule: HTTPModule,
+    handlerService: Instance,
+    port: number,
+    hostname?: string
+): Promise<Server> {
+    const server = createServer(createNodeHandler(httpModule, handlerService));
+    server.on("upgrade", createNodeUpgradeHandler(httpModule));
+    return new Promise((resolve, reject) => {
+        server.once("error", reject);
+        server.listen(port, hostname, () => {
+            server.off("error", reject);
+            resolve(server);
+        });
+    });
+}
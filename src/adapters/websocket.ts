@@ -0,0 +1,304 @@
+import { createHash } from "node:crypto";
+import { STATUS_CODES, type IncomingMessage } from "node:http";
+import type { Duplex } from "node:stream";
+import { DEFAULT_BODY_LIMIT } from "../content";
+import type { HTTPModule } from "../module";
+import type {
+    HTTPNormalizedRequest,
+    HTTPNormalizedResponse,
+    HTTPWebSocket,
+    HTTPWebSocketListener,
+    HTTPWebSocketMessage,
+} from "../types";
+import { serializeCookie } from "../util";
+
+/**
+ * The original request of WebSocket upgrades. Received by the `NodeHTTPAdapter`, that aborts the signal
+ * of the request when the socket closes.
+ */
+export type NodeWebSocketRequest = {
+    req: IncomingMessage;
+    socket: Duplex;
+    head: Buffer;
+};
+
+const GUID = "258EAFA5-E914-47DA-95CA-C5AB0DC85B11";
+/** Time to wait for the close frame of the client, before the connection is destroyed */
+const CLOSE_TIMEOUT = 5000;
+
+enum Opcode {
+    Continuation = 0x0,
+    Text = 0x1,
+    Binary = 0x2,
+    Close = 0x8,
+    Ping = 0x9,
+    Pong = 0xa,
+}
+
+function createFrame(opcode: Opcode, payload: Uint8Array): Buffer {
+    const length = payload.byteLength;
+    const headerLength = length < 126 ? 2 : length < 0x10000 ? 4 : 10;
+    const frame = Buffer.alloc(headerLength + length);
+
+    frame[0] = 0x80 | opcode;
+    if (length < 126) frame[1] = length;
+    else if (length < 0x10000) {
+        frame[1] = 126;
+        frame.writeUInt16BE(length, 2);
+    } else {
+        frame[1] = 127;
+        frame.writeBigUInt64BE(BigInt(length), 2);
+    }
+    frame.set(payload, headerLength);
+
+    return frame;
+}
+
+function createClosePayload(code: number, reason: string): Buffer {
+    const payload = Buffer.alloc(2 + Buffer.byteLength(reason));
+    payload.writeUInt16BE(code, 0);
+    payload.write(reason, 2);
+    return payload;
+}
+
+/**
+ * A server side WebSocket connection (RFC 6455) over a node socket.
+ * Messages are passed to the listener one after another.
+ */
+export class NodeWebSocket implements HTTPWebSocket {
+    data: Record<string, any> = {};
+    listener: HTTPWebSocketListener | undefined;
+    private _buffer: Buffer = Buffer.alloc(0);
+    private _fragments: Buffer[] = [];
+    private _fragmentsLength = 0;
+    private _fragmentsOpcode: Opcode | undefined;
+    private _closeSent = false;
+    private _closed = false;
+    private _closeTimer: ReturnType<typeof setTimeout> | undefined;
+    private _queue: Promise<void> = Promise.resolve();
+    private _decoder = new TextDecoder("utf-8", { fatal: true });
+
+    /**
+     * @param maxPayload Maximum message size in bytes. Larger messages close the connection with _1009 Message Too Big_
+     */
+    constructor(
+        readonly request: HTTPNormalizedRequest,
+        private _socket: Duplex,
+        private _maxPayload = DEFAULT_BODY_LIMIT
+    ) {}
+
+    /**
+     * Starts receiving frames
+     * @param head The first bytes received with the upgrade request
+     */
+    start(head?: Buffer) {
+        this._socket.on("data", (chunk: Buffer) => this._receive(chunk));
+        // Node http servers keep sockets half open, when the client ends the connection
+        this._socket.on("end", () => this._socket.end());
+        this._socket.on("close", () => this._finish(1006, ""));
+        this._socket.on("error", () => this._socket.destroy());
+        if (head?.byteLength) this._receive(head);
+    }
+
+    send(message: HTTPWebSocketMessage) {
+        if (this._closeSent) throw new Error("WebSocket is closed");
+        this._socket.write(
+            typeof message === "string"
+                ? createFrame(Opcode.Text, Buffer.from(message))
+                : createFrame(Opcode.Binary, message)
+        );
+    }
+
+    close(code = 1000, reason = "") {
+        if (this._closeSent) return;
+        this._closeSent = true;
+        this._socket.write(createFrame(Opcode.Close, createClosePayload(code, reason)));
+        this._closeTimer = setTimeout(() => this._socket.destroy(), CLOSE_TIMEOUT);
+        this._closeTimer.unref?.();
+    }
+
+    private _fail(code: number, reason: string) {
+        this.close(code, reason);
+        this._socket.end();
+        this._finish(code, reason);
+    }
+
+    private _receive(chunk: Buffer) {
+        this._buffer = this._buffer.byteLength ? Buffer.concat([this._buffer, chunk]) : chunk;
+
+        while (!this._closed && this._buffer.byteLength >= 2) {
+            const fin = (this._buffer[0] & 0x80) !== 0;
+            const opcode: Opcode = this._buffer[0] & 0x0f;
+            const masked = (this._buffer[1] & 0x80) !== 0;
+            let length = this._buffer[1] & 0x7f;
+            let offset = 2;
+
+            // Extensions are not negotiated
+            if (this._buffer[0] & 0x70) return this._fail(1002, "Reserved bits set");
+            if (!masked) return this._fail(1002, "Unmasked frame");
+
+            if (length === 126) {
+                if (this._buffer.byteLength < 4) return;
+                length = this._buffer.readUInt16BE(2);
+                offset = 4;
+            } else if (length === 127) {
+                if (this._buffer.byteLength < 10) return;
+                length = Number(this._buffer.readBigUInt64BE(2));
+                offset = 10;
+            }
+
+            if (length > this._maxPayload) return this._fail(1009, "Message Too Big");
+            if (this._buffer.byteLength < offset + 4 + length) return;
+
+            const mask = this._buffer.subarray(offset, offset + 4);
+            const payload = Buffer.from(this._buffer.subarray(offset + 4, offset + 4 + length));
+            for (let i = 0; i < payload.byteLength; i++) payload[i] ^= mask[i % 4];
+            this._buffer = this._buffer.subarray(offset + 4 + length);
+
+            this._frame(fin, opcode, payload);
+        }
+    }
+
+    private _frame(fin: boolean, opcode: Opcode, payload: Buffer) {
+        if (opcode >= Opcode.Close && (!fin || payload.byteLength > 125)) {
+            return this._fail(1002, "Invalid control frame");
+        }
+
+        switch (opcode) {
+            case Opcode.Close: {
+                const code = payload.byteLength >= 2 ? payload.readUInt16BE(0) : 1005;
+                const reason = payload.subarray(2).toString();
+                if (!this._closeSent) {
+                    this._closeSent = true;
+                    this._socket.write(createFrame(Opcode.Close, payload.subarray(0, 2)));
+                }
+                this._socket.end();
+                return this._finish(code, reason);
+            }
+            case Opcode.Ping:
+                if (!this._closeSent) this._socket.write(createFrame(Opcode.Pong, payload));
+                return;
+            case Opcode.Pong:
+                return;
+            case Opcode.Text:
+            case Opcode.Binary:
+                if (this._fragmentsOpcode !== undefined)
+                    return this._fail(1002, "Expected continuation frame");
+                if (fin) return this._message(opcode, payload);
+                this._fragmentsOpcode = opcode;
+                this._fragments = [payload];
+                this._fragmentsLength = payload.byteLength;
+                return;
+            case Opcode.Continuation: {
+                if (this._fragmentsOpcode === undefined)
+                    return this._fail(1002, "Unexpected continuation frame");
+                this._fragments.push(payload);
+                this._fragmentsLength += payload.byteLength;
+                if (this._fragmentsLength > this._maxPayload) return this._fail(1009, "Message Too Big");
+                if (!fin) return;
+
+                const fragmentsOpcode = this._fragmentsOpcode;
+                const message = Buffer.concat(this._fragments);
+                this._fragmentsOpcode = undefined;
+                this._fragments = [];
+                return this._message(fragmentsOpcode, message);
+            }
+            default:
+                return this._fail(1002, "Unknown opcode");
+        }
+    }
+
+    private _message(opcode: Opcode, payload: Buffer) {
+        let message: HTTPWebSocketMessage;
+
+        if (opcode === Opcode.Text) {
+            try {
+                message = this._decoder.decode(payload);
+            } catch {
+                return this._fail(1007, "Invalid UTF-8");
+            }
+        } else message = new Uint8Array(payload);
+
+        // A rejected listener must not stop the delivery of later messages
+        this._queue = this._queue.then(() => this.listener?.message(message)).catch(() => {});
+    }
+
+    private _finish(code: number, reason: string) {
+        if (this._closed) return;
+        this._closed = true;
+        this._closeSent = true;
+        clearTimeout(this._closeTimer);
+        this._queue = this._queue.then(() => this.listener?.close(code, reason)).catch(() => {});
+    }
+}
+
+function writeResponse(socket: Duplex, response: HTTPNormalizedResponse) {
+    const status = response.status ?? 500;
+    const headers = new Headers(response.headers);
+    let body = response.body ?? "";
+
+    if (typeof body !== "string" && !(body instanceof Uint8Array)) {
+        body = JSON.stringify(body);
+        if (!headers.has("Content-Type")) headers.set("Content-Type", "application/json");
+    }
+    headers.set("Content-Length", String(Buffer.byteLength(body)));
+    headers.set("Connection", "close");
+
+    let head = `HTTP/1.1 ${status} ${STATUS_CODES[status] ?? ""}\r\n`;
+    headers.forEach((value, name) => {
+        if (name !== "set-cookie") head += `${name}: ${value}\r\n`;
+    });
+    for (const cookie of [...headers.getSetCookie(), ...(response.cookies ?? []).map(serializeCookie)]) {
+        head += `set-cookie: ${cookie}\r\n`;
+    }
+
+    socket.end(Buffer.concat([Buffer.from(head + "\r\n"), Buffer.from(body)]));
+}
+
+/**
+ * @returns A listener for the `upgrade` event of `node:http` servers, that upgrades requests
+ * for `@WebSocket` services (see `HTTPModule.upgrade`). Requires the `NodeHTTPAdapter` service.
+ * @param options.maxPayload Maximum message size in bytes. Defaults to 1 MiB
+ */
+export function createNodeUpgradeHandler(httpModule: HTTPModule, options: { maxPayload?: number } = {}) {
+    return async (req: IncomingMessage, socket: Duplex, head: Buffer) => {
+        socket.on("error", () => socket.destroy());
+
+        const key = req.headers["sec-websocket-key"];
+        if (req.headers.upgrade?.toLowerCase() !== "websocket" || !key) {
+            return writeResponse(socket, { status: 400, body: "Bad Request" });
+        }
+        if (req.headers["sec-websocket-version"] !== "13") {
+            return writeResponse(socket, {
+                status: 426,
+                headers: new Headers({ "Sec-WebSocket-Version": "13" }),
+                body: "Upgrade Required",
+            });
+        }
+
+        try {
+            const upgrade = await httpModule.upgrade({ req, socket, head } as NodeWebSocketRequest);
+            if (!upgrade.accept) return writeResponse(socket, upgrade.response);
+
+            const accept = createHash("sha1")
+                .update(key + GUID)
+                .digest("base64");
+            socket.write(
+                "HTTP/1.1 101 Switching Protocols\r\n" +
+                    "Upgrade: websocket\r\n" +
+                    "Connection: Upgrade\r\n" +
+                    `Sec-WebSocket-Accept: ${accept}\r\n\r\n`
+            );
+
+            const ws = new NodeWebSocket(upgrade.request, socket, options.maxPayload);
+            try {
+                ws.listener = await upgrade.accept(ws);
+            } catch (err) {
+                ws.close(1011, "Internal Error");
+            }
+            ws.start(head);
+        } catch (err) {
+            socket.destroy();
+        }
+    };
+}
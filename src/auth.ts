@@ -0,0 +1,224 @@
+import { HTTPUnauthorizedError } from "./errors";
+import type {
+    HTTPAuthStrategy,
+    HTTPJWTKey,
+    HTTPJWTOptions,
+    HTTPNormalizedRequest,
+    HTTPPrincipal,
+} from "./types";
+
+type Verify<A extends any[]> = (
+    ...args: [...A, HTTPNormalizedRequest]
+) => HTTPPrincipal | null | undefined | Promise<HTTPPrincipal | null | undefined>;
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+const JWT_ALGORITHMS: Record<string, { import: any; verify: any }> = {
+    HS256: { import: { name: "HMAC", hash: "SHA-256" }, verify: "HMAC" },
+    HS384: { import: { name: "HMAC", hash: "SHA-384" }, verify: "HMAC" },
+    HS512: { import: { name: "HMAC", hash: "SHA-512" }, verify: "HMAC" },
+    RS256: { import: { name: "RSASSA-PKCS1-v1_5", hash: "SHA-256" }, verify: "RSASSA-PKCS1-v1_5" },
+    RS384: { import: { name: "RSASSA-PKCS1-v1_5", hash: "SHA-384" }, verify: "RSASSA-PKCS1-v1_5" },
+    RS512: { import: { name: "RSASSA-PKCS1-v1_5", hash: "SHA-512" }, verify: "RSASSA-PKCS1-v1_5" },
+    ES256: { import: { name: "ECDSA", namedCurve: "P-256" }, verify: { name: "ECDSA", hash: "SHA-256" } },
+    ES384: { import: { name: "ECDSA", namedCurve: "P-384" }, verify: { name: "ECDSA", hash: "SHA-384" } },
+    ES512: { import: { name: "ECDSA", namedCurve: "P-521" }, verify: { name: "ECDSA", hash: "SHA-512" } },
+};
+
+function fromBase64URL(value: string): Uint8Array {
+    const binary = atob(value.replace(/-/g, "+").replace(/_/g, "/"));
+    return Uint8Array.from(binary, (c) => c.charCodeAt(0));
+}
+
+function realmChallenge(scheme: string, realm: string | undefined): string {
+    return realm ? `${scheme} realm="${realm}"` : scheme;
+}
+
+/**
+ * @returns The scheme (lower cased) and the credentials of the `Authorization` header
+ */
+export function parseAuthorization(
+    request: HTTPNormalizedRequest
+): { scheme: string; credentials: string } | null {
+    const header = request.headers.get("Authorization")?.trim();
+    if (!header) return null;
+
+    const index = header.indexOf(" ");
+    if (index === -1) return { scheme: header.toLowerCase(), credentials: "" };
+
+    return { scheme: header.slice(0, index).toLowerCase(), credentials: header.slice(index + 1).trim() };
+}
+
+function matchesClaim(claim: unknown, expected: string | string[]): boolean {
+    const values = Array.isArray(claim) ? claim : [claim];
+    const allowed = Array.isArray(expected) ? expected : [expected];
+    return values.some((value) => allowed.includes(value));
+}
+
+async function importJWTKey(key: HTTPJWTKey, alg: string): Promise<CryptoKey | null> {
+    const algorithm = JWT_ALGORITHMS[alg];
+    const isHMAC = alg.startsWith("HS");
+
+    if (typeof key === "string") {
+        if (!isHMAC) return null;
+        return crypto.subtle.importKey("raw", encoder.encode(key), algorithm.import, false, ["verify"]);
+    }
+    if (isHMAC || (key.alg && key.alg !== alg)) return null;
+
+    try {
+        return await crypto.subtle.importKey("jwk", key, algorithm.import, false, ["verify"]);
+    } catch {
+        // The key does not fit the algorithm
+        return null;
+    }
+}
+
+/**
+ * Verifies the signature and the registered claims (`exp`, `nbf`, `iss`, `aud`) of a JSON Web Token.
+ * @returns The payload
+ * @throws `HTTPUnauthorizedError` if the token is invalid
+ */
+export async function verifyJWT(token: string, options: HTTPJWTOptions): Promise<Record<string, any>> {
+    const invalid = (message: string) =>
+        new HTTPUnauthorizedError(message, undefined, [`Bearer error="invalid_token"`]);
+
+    const parts = token.split(".");
+    if (parts.length !== 3) throw invalid("Malformed token");
+
+    let header: Record<string, any>;
+    let payload: Record<string, any>;
+    let signature: BufferSource;
+    try {
+        header = JSON.parse(decoder.decode(fromBase64URL(parts[0])));
+        payload = JSON.parse(decoder.decode(fromBase64URL(parts[1])));
+        signature = fromBase64URL(parts[2]) as BufferSource;
+    } catch (err) {
+        throw invalid("Malformed token");
+    }
+
+    const alg = header.alg;
+    const algorithms = options.algorithms ?? Object.keys(JWT_ALGORITHMS);
+    if (!JWT_ALGORITHMS[alg] || !algorithms.includes(alg)) throw invalid("Unsupported token algorithm");
+
+    const data = encoder.encode(`${parts[0]}.${parts[1]}`);
+    const keys = options.keys.filter((key) => typeof key === "string" || !key.kid || key.kid === header.kid);
+
+    let verified = false;
+    for (const key of keys) {
+        const cryptoKey = await importJWTKey(key, alg);
+        if (
+            cryptoKey &&
+            (await crypto.subtle.verify(JWT_ALGORITHMS[alg].verify, cryptoKey, signature, data))
+        ) {
+            verified = true;
+            break;
+        }
+    }
+    if (!verified) throw invalid("Invalid token signature");
+
+    const now = Date.now() / 1000;
+    const tolerance = options.clockTolerance ?? 0;
+    if (typeof payload.exp === "number" && payload.exp + tolerance <= now) throw invalid("Token expired");
+    if (typeof payload.nbf === "number" && payload.nbf - tolerance > now)
+        throw invalid("Token not yet valid");
+    if (options.issuer && !matchesClaim(payload.iss, options.issuer)) throw invalid("Invalid token issuer");
+    if (options.audience && !matchesClaim(payload.aud, options.audience))
+        throw invalid("Invalid token audience");
+
+    return payload;
+}
+
+/**
+ * Authenticates `Authorization: Bearer <token>` requests
+ */
+export function bearerStrategy(
+    verify: Verify<[token: string]>,
+    options: { realm?: string } = {}
+): HTTPAuthStrategy {
+    return {
+        challenge: realmChallenge("Bearer", options.realm),
+        async authenticate(request) {
+            const authorization = parseAuthorization(request);
+            if (authorization?.scheme !== "bearer") return null;
+            return await verify(authorization.credentials, request);
+        },
+    };
+}
+
+/**
+ * Authenticates requests with JSON Web Tokens in the `Authorization: Bearer` header, that are verified with local keys.
+ * Invalid tokens are rejected with _401 Unauthorized_.
+ * @param options.toPrincipal Maps the token payload to the principal. Defaults to `{ ...payload, id: payload.sub }`
+ */
+export function jwtStrategy(
+    options: HTTPJWTOptions & {
+        realm?: string;
+        toPrincipal?: (payload: Record<string, any>, request: HTTPNormalizedRequest) => HTTPPrincipal;
+    }
+): HTTPAuthStrategy {
+    return bearerStrategy(async (token, request) => {
+        const payload = await verifyJWT(token, options);
+        return options.toPrincipal?.(payload, request) ?? { ...payload, id: payload.sub };
+    }, options);
+}
+
+/**
+ * Authenticates `Authorization: Basic <credentials>` requests.
+ * Return nothing from `verify` to reject the credentials with _401 Unauthorized_.
+ */
+export function basicStrategy(
+    verify: Verify<[username: string, password: string]>,
+    options: { realm?: string } = {}
+): HTTPAuthStrategy {
+    const challenge = realmChallenge("Basic", options.realm);
+
+    return {
+        challenge,
+        async authenticate(request) {
+            const authorization = parseAuthorization(request);
+            if (authorization?.scheme !== "basic") return null;
+
+            let decoded: string;
+            try {
+                decoded = decoder.decode(fromBase64URL(authorization.credentials));
+            } catch {
+                throw new HTTPUnauthorizedError("Malformed credentials", undefined, [challenge]);
+            }
+
+            const index = decoded.indexOf(":");
+            if (index === -1)
+                throw new HTTPUnauthorizedError("Malformed credentials", undefined, [challenge]);
+
+            const principal = await verify(decoded.slice(0, index), decoded.slice(index + 1), request);
+            if (!principal) throw new HTTPUnauthorizedError("Invalid credentials", undefined, [challenge]);
+            return principal;
+        },
+    };
+}
+
+/**
+ * Authenticates requests with an API key header.
+ * Return nothing from `verify` to reject the key with _401 Unauthorized_.
+ * The challenge names the header, e.g. `ApiKey header="X-API-Key"`.
+ * @param options.header Defaults to `X-API-Key`
+ */
+export function apiKeyStrategy(
+    verify: Verify<[key: string]>,
+    options: { header?: string } = {}
+): HTTPAuthStrategy {
+    const header = options.header ?? "X-API-Key";
+    const challenge = `ApiKey header="${header}"`;
+
+    return {
+        challenge,
+        async authenticate(request) {
+            const key = request.headers.get(header);
+            if (!key) return null;
+
+            const principal = await verify(key, request);
+            if (!principal) throw new HTTPUnauthorizedError("Invalid API key", undefined, [challenge]);
+            return principal;
+        },
+    };
+}
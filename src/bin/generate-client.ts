@@ -0,0 +1,49 @@
+#!/usr/bin/env node
+import { writeFile } from "node:fs/promises";
+import { resolve } from "node:path";
+import { pathToFileURL } from "node:url";
+import { parseArgs } from "node:util";
+import { generateClient } from "../client";
+
+const USAGE =
+    "Usage: njses-http-client --entry <module> [--export <name>] [--out <file>] [--errors-import <module>]";
+
+/**
+ * Generates a typed client from the handler service instance (or a promise of it) exported by the entry module.
+ * The client is written to `--out` or to stdout.
+ */
+async function main() {
+    const { values } = parseArgs({
+        options: {
+            entry: { type: "string", short: "e" },
+            export: { type: "string", short: "x", default: "default" },
+            out: { type: "string", short: "o" },
+            "errors-import": { type: "string" },
+            help: { type: "boolean", short: "h" },
+        },
+    });
+
+    if (values.help) {
+        console.log(USAGE);
+        return;
+    }
+
+    if (!values.entry) {
+        console.error(USAGE);
+        process.exit(1);
+    }
+
+    const entry = await import(pathToFileURL(resolve(values.entry)).href);
+    const handlerService = await entry[values.export!];
+    if (!handlerService) throw new Error(`"${values.entry}" has no export "${values.export}"`);
+
+    const source = generateClient(handlerService, { errorsImport: values["errors-import"] });
+
+    if (values.out) await writeFile(values.out, source);
+    else process.stdout.write(source);
+}
+
+main().catch((err) => {
+    console.error(err);
+    process.exit(1);
+});
@@ -0,0 +1,136 @@
+import { HTTPPreconditionFailedError } from "./errors";
+import { cancelBody } from "./content";
+import type {
+    HTTPCacheOptions,
+    HTTPNormalizedRequest,
+    HTTPNormalizedResponse,
+    HTTPValidators,
+} from "./types";
+
+const encoder = new TextEncoder();
+
+/** Headers, that a _304 Not Modified_ response keeps (RFC 9110 15.4.5) */
+const NOT_MODIFIED_HEADERS = ["Cache-Control", "Content-Location", "Date", "ETag", "Expires", "Vary"];
+
+/**
+ * Formats the `Cache-Control` header
+ */
+export function formatCacheControl(options: HTTPCacheOptions): string {
+    if (typeof options === "string") return options;
+
+    const directives: string[] = [];
+    if (options.public) directives.push("public");
+    if (options.private) directives.push("private");
+    if (options.noCache) directives.push("no-cache");
+    if (options.noStore) directives.push("no-store");
+    if (options.noTransform) directives.push("no-transform");
+    if (options.mustRevalidate) directives.push("must-revalidate");
+    if (options.proxyRevalidate) directives.push("proxy-revalidate");
+    if (options.immutable) directives.push("immutable");
+    if (options.maxAge !== undefined) directives.push(`max-age=${Math.floor(options.maxAge)}`);
+    if (options.sMaxAge !== undefined) directives.push(`s-maxage=${Math.floor(options.sMaxAge)}`);
+    if (options.staleWhileRevalidate !== undefined)
+        directives.push(`stale-while-revalidate=${Math.floor(options.staleWhileRevalidate)}`);
+    if (options.staleIfError !== undefined)
+        directives.push(`stale-if-error=${Math.floor(options.staleIfError)}`);
+
+    return directives.join(", ");
+}
+
+/**
+ * Generates an ETag from the SHA-1 hash of the body.
+ * Weak ETags mark representations, that are semantically but not byte-for-byte equivalent.
+ */
+export async function generateETag(body: string | Uint8Array, weak = false): Promise<string> {
+    const bytes = typeof body === "string" ? encoder.encode(body) : body;
+    const hash = new Uint8Array(await crypto.subtle.digest("SHA-1", bytes as BufferSource));
+
+    let binary = "";
+    for (const byte of hash) binary += String.fromCharCode(byte);
+    const tag = `"${bytes.byteLength.toString(16)}-${btoa(binary).replace(/=+$/, "")}"`;
+
+    return weak ? `W/${tag}` : tag;
+}
+
+/**
+ * Splits an `If-Match` or `If-None-Match` header into its entity tags. `*` is returned as is.
+ */
+export function parseETags(header: string): string[] {
+    return header.match(/\*|(?:W\/)?"[^"]*"/g) ?? [];
+}
+
+/**
+ * Compares the entity tags of a `If-Match` or `If-None-Match` header with the ETag.
+ * The strong comparison never matches weak ETags, the weak comparison ignores the weakness.
+ */
+export function matchesETag(header: string, etag: string | undefined, strong = false): boolean {
+    const tags = parseETags(header);
+    if (tags.includes("*")) return etag !== undefined;
+    if (etag === undefined || (strong && etag.startsWith("W/"))) return false;
+
+    const opaque = etag.replace(/^W\//, "");
+    return tags.some((tag) => (strong ? tag === etag : tag.replace(/^W\//, "") === opaque));
+}
+
+function parseDate(value: string | null): number | undefined {
+    if (!value) return undefined;
+    const time = Date.parse(value);
+    return Number.isNaN(time) ? undefined : time;
+}
+
+/**
+ * Evaluates the conditional headers of the request against the validators of the current representation
+ * of the resource in the order of RFC 9110 13.2.2. Call this before modifying a resource to prevent lost updates.
+ * Pass empty validators if the resource does not exist.
+ * @returns `true` if a GET or HEAD request can be answered with _304 Not Modified_
+ * @throws `HTTPPreconditionFailedError` if `If-Match`, `If-Unmodified-Since` or `If-None-Match` fails
+ */
+export function checkPreconditions(request: HTTPNormalizedRequest, validators: HTTPValidators): boolean {
+    const safe = request.method === "GET" || request.method === "HEAD";
+    // HTTP dates have a resolution of seconds
+    const lastModified =
+        validators.lastModified && Math.floor(validators.lastModified.getTime() / 1000) * 1000;
+
+    const ifMatch = request.headers.get("If-Match");
+    if (ifMatch !== null) {
+        if (!matchesETag(ifMatch, validators.etag, true)) throw new HTTPPreconditionFailedError();
+    } else {
+        const ifUnmodifiedSince = parseDate(request.headers.get("If-Unmodified-Since"));
+        if (ifUnmodifiedSince !== undefined && lastModified !== undefined && lastModified > ifUnmodifiedSince)
+            throw new HTTPPreconditionFailedError();
+    }
+
+    const ifNoneMatch = request.headers.get("If-None-Match");
+    if (ifNoneMatch !== null) {
+        if (!matchesETag(ifNoneMatch, validators.etag)) return false;
+        if (safe) return true;
+        throw new HTTPPreconditionFailedError();
+    }
+
+    if (!safe) return false;
+
+    const ifModifiedSince = parseDate(request.headers.get("If-Modified-Since"));
+    return ifModifiedSince !== undefined && lastModified !== undefined && lastModified <= ifModifiedSince;
+}
+
+/**
+ * Turns the response into a _304 Not Modified_ response. Headers, that only describe the body, are removed.
+ */
+export async function toNotModifiedResponse(
+    response: HTTPNormalizedResponse
+): Promise<HTTPNormalizedResponse> {
+    await cancelBody(response.body);
+
+    const headers = new Headers();
+    const previous = new Headers(response.headers);
+    for (const name of NOT_MODIFIED_HEADERS) {
+        const value = previous.get(name);
+        if (value !== null) headers.set(name, value);
+    }
+    // Keep the validator, if there is no ETag
+    if (!headers.has("ETag") && previous.has("Last-Modified"))
+        headers.set("Last-Modified", previous.get("Last-Modified")!);
+    for (const cookie of previous.getSetCookie()) headers.append("Set-Cookie", cookie);
+
+    return { status: 304, headers, cookies: response.cookies };
+}
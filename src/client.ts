@@ -0,0 +1,204 @@
+import type { Instance } from "../../njses";
+import { generateOpenAPIDocument } from "./openapi";
+import type { HTTPJSONSchema, HTTPOpenAPIOptions } from "./types";
+
+export interface HTTPClientGeneratorOptions {
+    /** The module the generated client imports `toHTTPError` from. Defaults to this package */
+    errorsImport?: string;
+    /** Converts validation schemas to JSON schemas, see `HTTPOpenAPIOptions.toJSONSchema` */
+    toJSONSchema?: HTTPOpenAPIOptions["toJSONSchema"];
+}
+
+const PACKAGE_NAME = "@andre-hctulc-/njses-http";
+
+function isIdentifier(name: string): boolean {
+    return /^[A-Za-z_$][\w$]*$/.test(name);
+}
+
+/**
+ * Converts a JSON schema to a TypeScript type. Unsupported schemas become `unknown`.
+ */
+export function jsonSchemaToType(schema: HTTPJSONSchema | undefined, indent = ""): string {
+    if (!schema || typeof schema !== "object") return "unknown";
+
+    if ("const" in schema) return JSON.stringify(schema.const);
+    if (Array.isArray(schema.enum)) return schema.enum.map((v: unknown) => JSON.stringify(v)).join(" | ");
+    if (Array.isArray(schema.anyOf ?? schema.oneOf)) {
+        return (schema.anyOf ?? schema.oneOf)
+            .map((s: HTTPJSONSchema) => jsonSchemaToType(s, indent))
+            .join(" | ");
+    }
+    if (Array.isArray(schema.allOf)) {
+        return schema.allOf.map((s: HTTPJSONSchema) => jsonSchemaToType(s, indent)).join(" & ");
+    }
+    if (Array.isArray(schema.type)) {
+        return schema.type.map((type: string) => jsonSchemaToType({ ...schema, type }, indent)).join(" | ");
+    }
+
+    switch (schema.type) {
+        case "string":
+            return "string";
+        case "number":
+        case "integer":
+            return "number";
+        case "boolean":
+            return "boolean";
+        case "null":
+            return "null";
+        case "array":
+            return `${wrapUnion(jsonSchemaToType(schema.items, indent))}[]`;
+        case "object": {
+            const properties = Object.entries<HTTPJSONSchema>(schema.properties ?? {});
+            if (!properties.length) return "Record<string, unknown>";
+
+            const required: string[] = schema.required ?? [];
+            const inner = indent + "    ";
+            const members = properties.map(([name, property]) => {
+                const key = isIdentifier(name) ? name : JSON.stringify(name);
+                const optional = required.includes(name) ? "" : "?";
+                return `${inner}${key}${optional}: ${jsonSchemaToType(property, inner)};`;
+            });
+            return `{\n${members.join("\n")}\n${indent}}`;
+        }
+        default:
+            return "unknown";
+    }
+}
+
+function wrapUnion(type: string): string {
+    return type.includes(" | ") || type.includes(" & ") ? `(${type})` : type;
+}
+
+function getResponseType(operation: HTTPJSONSchema, indent: string): string {
+    const entries = Object.entries<HTTPJSONSchema>(operation.responses ?? {});
+    const success = entries.find(([status]) => status.startsWith("2"));
+    if (!success) return "unknown";
+    if (success[0] === "204") return "void";
+
+    const content = Object.values<HTTPJSONSchema>(success[1].content ?? {})[0];
+    return jsonSchemaToType(content?.schema, indent);
+}
+
+const RUNTIME = `export type ClientOptions = {
+    baseURL: string;
+    fetch?: typeof fetch;
+    headers?: HeadersInit;
+};
+
+async function request(
+    options: ClientOptions,
+    method: string,
+    path: string,
+    query?: Record<string, unknown>,
+    body?: unknown
+): Promise<any> {
+    const url = new URL(path.replace(/^\\//, ""), options.baseURL.replace(/\\/?$/, "/"));
+    for (const [key, value] of Object.entries(query ?? {})) {
+        if (value === undefined) continue;
+        for (const v of Array.isArray(value) ? value : [value]) url.searchParams.append(key, String(v));
+    }
+
+    const headers = new Headers(options.headers);
+    if (body !== undefined) headers.set("Content-Type", "application/json");
+
+    const response = await (options.fetch ?? fetch)(url, {
+        method,
+        headers,
+        body: body === undefined ? undefined : JSON.stringify(body),
+    });
+
+    const text = await response.text();
+    const data = text && response.headers.get("Content-Type")?.includes("json") ? JSON.parse(text) : text;
+
+    if (!response.ok) throw toHTTPError({ status: response.status, headers: response.headers, body: data });
+
+    return text === "" ? undefined : data;
+}`;
+
+/**
+ * Generates the source of a typed fetch client with one function per `@Handler` method of the handler service.
+ * Path, query and body parameters are typed from the schemas of the parameter decorators,
+ * responses from `@Responds`. Error responses are thrown as the matching `HTTPError` subclass.
+ */
+export function generateClient(handlerService: Instance, options: HTTPClientGeneratorOptions = {}): string {
+    const document = generateOpenAPIDocument(handlerService, {
+        info: { title: "", version: "" },
+        toJSONSchema: options.toJSONSchema,
+    });
+
+    const functions: string[] = [];
+    const names = new Map<string, number>();
+
+    for (const [path, operations] of Object.entries(document.paths)) {
+        for (const [method, operation] of Object.entries(operations)) {
+            // Handlers of different services may share the same id
+            const count = (names.get(operation.operationId) ?? 0) + 1;
+            names.set(operation.operationId, count);
+            const name = count === 1 ? operation.operationId : `${operation.operationId}${count}`;
+
+            const parameters: HTTPJSONSchema[] = operation.parameters ?? [];
+            const pathParams = parameters.filter((p) => p.in === "path");
+            const queryParams = parameters.filter((p) => p.in === "query");
+            const bodySchema = operation.requestBody?.content?.["application/json"]?.schema;
+
+            const members: string[] = [];
+            if (pathParams.length) {
+                const type = jsonSchemaToType(
+                    {
+                        type: "object",
+                        properties: Object.fromEntries(pathParams.map((p) => [p.name, p.schema])),
+                        required: pathParams.map((p) => p.name),
+                    },
+                    "        "
+                );
+                members.push(`        path: ${type};`);
+            }
+            if (queryParams.length) {
+                const type = jsonSchemaToType(
+                    {
+                        type: "object",
+                        properties: Object.fromEntries(queryParams.map((p) => [p.name, p.schema])),
+                        required: queryParams.filter((p) => p.required).map((p) => p.name),
+                    },
+                    "        "
+                );
+                const optional = queryParams.some((p) => p.required) ? "" : "?";
+                members.push(`        query${optional}: ${type};`);
+            }
+            if (bodySchema) members.push(`        body: ${jsonSchemaToType(bodySchema, "        ")};`);
+
+            const url = path.replace(/\{([^}]+)\}/g, (_, param: string) => {
+                const access = isIdentifier(param) ? `.${param}` : `[${JSON.stringify(param)}]`;
+                return `\${encodeURIComponent(String(params.path${access}))}`;
+            });
+            const signature = members.length ? `params: {\n${members.join("\n")}\n    }` : "";
+            const args = [
+                "options",
+                JSON.stringify(method.toUpperCase()),
+                `\`${url}\``,
+                queryParams.length ? "params.query" : bodySchema ? "undefined" : "",
+                bodySchema ? "params.body" : "",
+            ].filter(Boolean);
+
+            const doc = operation.summary ? `    /** ${operation.summary} */\n` : "";
+            functions.push(
+                `${doc}    ${name}: (${signature}): Promise<${getResponseType(operation, "    ")}> =>\n` +
+                    `        request(${args.join(", ")}),`
+            );
+        }
+    }
+
+    return [
+        "// Generated by njses-http. Do not edit.",
+        `import { toHTTPError } from ${JSON.stringify(options.errorsImport ?? PACKAGE_NAME)};`,
+        "",
+        RUNTIME,
+        "",
+        "export function createClient(options: ClientOptions) {",
+        "    return {",
+        ...functions,
+        "    };",
+        "}",
+        "",
+    ].join("\n");
+}
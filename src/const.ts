@@ -1,9 +1,21 @@
 export enum HTTP_FIELD {
-    REQUEST_RECEIVE = "$$http_request_parser",
+    REQUEST_RECEIVE = "$$http_request_receive",
     REQUEST_PARSER = "$$http_request_parser",
+    AUTH = "$$http_auth",
+    AROUND_MIDDLEWARE = "$$http_around_middleware",
     SENDER = "$$http_sender",
     RESPONSE_REFINER = "$$http_response_refinder",
     CORS = "$$http_cors",
+    ERROR_TRANSFORMER = "$$http_error_transformer",
+    CONTENT_PARSER = "$$http_content_parser",
+    CONTENT_SERIALIZER = "$$http_content_serializer",
+    WEBSOCKET_OPEN = "$$http_websocket_open",
+    WEBSOCKET_MESSAGE = "$$http_websocket_message",
+    WEBSOCKET_CLOSE = "$$http_websocket_close",
+    ON_REQUEST = "$$http_on_request",
+    ON_HANDLER_MATCHED = "$$http_on_handler_matched",
+    ON_ERROR = "$$http_on_error",
+    ON_RESPONSE = "$$http_on_response",
 }
 
 export enum HTTP_ROLE {
@@ -0,0 +1,152 @@
+import { HTTPPayloadTooLargeError } from "./errors";
+import type { HTTPStreamBody } from "./types";
+
+/** 1 MiB */
+export const DEFAULT_BODY_LIMIT = 1024 * 1024;
+
+export type MediaType = {
+    type: string;
+    subtype: string;
+    params: Record<string, string>;
+};
+
+/**
+ * Parses a media type such as `text/html; charset=utf-8`. Type, subtype and parameter names are lower cased.
+ */
+export function parseMediaType(value: string): MediaType {
+    const [essence, ...rawParams] = value.split(";");
+    const [type = "", subtype = ""] = essence.trim().toLowerCase().split("/");
+    const params: Record<string, string> = {};
+
+    for (const param of rawParams) {
+        const index = param.indexOf("=");
+        if (index === -1) continue;
+        const name = param.slice(0, index).trim().toLowerCase();
+        const paramValue = param.slice(index + 1).trim();
+        params[name] = paramValue.replace(/^"(.*)"$/, "$1");
+    }
+
+    return { type, subtype, params };
+}
+
+/**
+ * @param pattern A media type that may contain wildcards: `*\/*`, `text/*` or `application/*+json`
+ */
+export function matchesMediaType(mediaType: MediaType, pattern: string): boolean {
+    const { type, subtype } = parseMediaType(pattern);
+    if (type !== "*" && type !== mediaType.type) return false;
+    if (subtype === "*" || subtype === mediaType.subtype) return true;
+    // Structured syntax suffixes, e.g. `application/*+json`
+    return subtype.startsWith("*+") && mediaType.subtype.endsWith(subtype.slice(1));
+}
+
+/**
+ * @returns The quality of the offer for the most specific matching range, 0 if none matches
+ */
+function getQuality(ranges: (MediaType & { q: number })[], offer: MediaType): number {
+    let best: { specificity: number; q: number } | undefined;
+
+    for (const range of ranges) {
+        if (range.type !== "*" && range.type !== offer.type) continue;
+        if (range.subtype !== "*" && range.subtype !== offer.subtype) continue;
+
+        const specificity = (range.type === "*" ? 0 : 1) + (range.subtype === "*" ? 0 : 1);
+        if (!best || specificity > best.specificity) best = { specificity, q: range.q };
+    }
+
+    return best?.q ?? 0;
+}
+
+/**
+ * Selects the offer preferred by the `Accept` header. Equally preferred offers are selected in their order.
+ * @returns The selected offer or `null` if none is acceptable
+ */
+export function negotiateMediaType(accept: string | null | undefined, offers: string[]): string | null {
+    if (!accept?.trim()) return offers[0] ?? null;
+
+    const ranges = accept.split(",").map((range) => {
+        const mediaType = parseMediaType(range);
+        const q = Number(mediaType.params.q ?? 1);
+        return { ...mediaType, q: Number.isNaN(q) ? 1 : q };
+    });
+
+    let selected: { offer: string; q: number } | null = null;
+
+    for (const offer of offers) {
+        const q = getQuality(ranges, parseMediaType(offer));
+        if (q > 0 && (!selected || q > selected.q)) selected = { offer, q };
+    }
+
+    return selected?.offer ?? null;
+}
+
+/**
+ * Raw bodies are received by adapters and are yet to be parsed
+ */
+export function isRawBody(body: unknown): body is string | Uint8Array | ReadableStream {
+    return typeof body === "string" || body instanceof Uint8Array || body instanceof ReadableStream;
+}
+
+/**
+ * Streamed bodies are read by the sender chunk by chunk
+ */
+export function isStreamBody(body: unknown): body is HTTPStreamBody {
+    return (
+        body instanceof ReadableStream ||
+        (typeof body === "object" && body !== null && Symbol.asyncIterator in body)
+    );
+}
+
+/**
+ * Cancels a streamed body, that will not be sent, so its resources are released.
+ * Other bodies are ignored.
+ */
+export async function cancelBody(body: unknown): Promise<void> {
+    try {
+        if (body instanceof ReadableStream) await body.cancel();
+        else if (isStreamBody(body)) await body[Symbol.asyncIterator]().return?.();
+    } catch {
+        // The stream is errored already
+    }
+}
+
+/**
+ * Reads a raw body to bytes.
+ * @throws `HTTPPayloadTooLargeError` if the body exceeds the limit
+ */
+export async function readRawBody(
+    body: string | Uint8Array | ReadableStream,
+    limit: number
+): Promise<Uint8Array> {
+    if (typeof body === "string") body = new TextEncoder().encode(body);
+
+    if (body instanceof Uint8Array) {
+        if (body.byteLength > limit) throw new HTTPPayloadTooLargeError();
+        return body;
+    }
+
+    const reader = body.getReader();
+    const chunks: Uint8Array[] = [];
+    let length = 0;
+
+    while (true) {
+        const { value, done } = await reader.read();
+        if (done) break;
+
+        length += value.byteLength;
+        if (length > limit) {
+            await reader.cancel();
+            throw new HTTPPayloadTooLargeError();
+        }
+        chunks.push(value);
+    }
+
+    const result = new Uint8Array(length);
+    let offset = 0;
+    for (const chunk of chunks) {
+        result.set(chunk, offset);
+        offset += chunk.byteLength;
+    }
+
+    return result;
+}
@@ -0,0 +1,131 @@
+import micromatch from "micromatch";
+import { appendVary } from "./util";
+import type { HTTPCORSOptions, HTTPCORSOrigin, HTTPNormalizedRequest, HTTPNormalizedResponse } from "./types";
+
+const DEFAULT_MAX_AGE = 600;
+
+/**
+ * Merges the CORS options. Defined values of later options override earlier ones.
+ */
+export function mergeCORSOptions(...options: (HTTPCORSOptions | undefined)[]): HTTPCORSOptions | undefined {
+    let result: HTTPCORSOptions | undefined;
+    for (const o of options) {
+        if (!o) continue;
+        const defined = Object.fromEntries(Object.entries(o).filter(([, value]) => value !== undefined));
+        result = { ...result, ...(defined as HTTPCORSOptions) };
+    }
+    return result;
+}
+
+function matchesOrigin(origin: string, allowed: HTTPCORSOrigin): boolean {
+    if (typeof allowed === "string")
+        return allowed === "*" || allowed === origin || micromatch.isMatch(origin, allowed);
+    else if (typeof allowed === "function") return allowed(origin);
+    else return allowed.test(origin);
+}
+
+/**
+ * Origins default to `"*"`.
+ * @param origin The value of the `Origin` request header
+ */
+export function isCORSOriginAllowed(origin: string, options: HTTPCORSOptions): boolean {
+    const origins = options.origins ?? "*";
+    if (Array.isArray(origins)) return origins.some((o) => matchesOrigin(origin, o));
+    return matchesOrigin(origin, origins);
+}
+
+/**
+ * A preflight request is an `OPTIONS` request with an `Origin` and an `Access-Control-Request-Method` header.
+ */
+export function isPreflightRequest(request: HTTPNormalizedRequest): boolean {
+    return (
+        request.method === "OPTIONS" &&
+        request.headers.has("Origin") &&
+        request.headers.has("Access-Control-Request-Method")
+    );
+}
+
+function splitHeaderList(value: string | null): string[] {
+    return (value ?? "")
+        .split(",")
+        .map((v) => v.trim())
+        .filter(Boolean);
+}
+
+/**
+ * Sets `Access-Control-Allow-Origin` and `Access-Control-Allow-Credentials`.
+ * With credentials, a wildcard origin is answered with the request origin, as browsers reject `*` then.
+ * @returns `false` if the origin is not allowed
+ */
+function setOriginHeaders(headers: Headers, origin: string, options: HTTPCORSOptions): boolean {
+    const anyOrigin = (options.origins ?? "*") === "*";
+
+    // The response varies by origin unless every origin receives `*`
+    if (!anyOrigin || options.allowCredentials) appendVary(headers, "Origin");
+
+    if (!isCORSOriginAllowed(origin, options)) return false;
+
+    headers.set("Access-Control-Allow-Origin", anyOrigin && !options.allowCredentials ? "*" : origin);
+    if (options.allowCredentials) headers.set("Access-Control-Allow-Credentials", "true");
+
+    return true;
+}
+
+/**
+ * Applies the CORS headers to the response of an actual (non preflight) request.
+ * The response is left unchanged if the request has no `Origin`.
+ */
+export function applyCORSHeaders(
+    request: HTTPNormalizedRequest,
+    response: HTTPNormalizedResponse,
+    options: HTTPCORSOptions
+): HTTPNormalizedResponse {
+    const origin = request.headers.get("Origin");
+    if (!origin) return response;
+
+    const headers = new Headers(response.headers);
+
+    if (setOriginHeaders(headers, origin, options) && options.exposeHeaders?.length) {
+        headers.set("Access-Control-Expose-Headers", options.exposeHeaders.join(", "));
+    }
+
+    return { ...response, headers };
+}
+
+/**
+ * Creates the response to a preflight request. The CORS headers are omitted if the origin, the requested method
+ * or any of the requested headers is not allowed, which makes the browser fail the actual request.
+ * @param allowedMethods The methods registered for the path. Used if `options.allowMethods` is not set.
+ */
+export function createPreflightResponse(
+    request: HTTPNormalizedRequest,
+    options: HTTPCORSOptions,
+    allowedMethods: string[]
+): HTTPNormalizedResponse {
+    const headers = new Headers();
+    const response: HTTPNormalizedResponse = { status: 204, headers };
+    const origin = request.headers.get("Origin")!;
+
+    appendVary(headers, "Access-Control-Request-Method", "Access-Control-Request-Headers");
+
+    const requestedMethod = request.headers.get("Access-Control-Request-Method")!;
+    const methods = options.allowMethods ?? allowedMethods;
+    if (!methods.includes(requestedMethod)) return response;
+
+    const requestedHeaders = splitHeaderList(request.headers.get("Access-Control-Request-Headers"));
+    // Wildcards are taken literally with credentials
+    const anyHeader = options.allowHeaders?.includes("*") && !options.allowCredentials;
+    const allowHeaders = options.allowHeaders?.map((h) => h.toLowerCase());
+    if (allowHeaders && !anyHeader && requestedHeaders.some((h) => !allowHeaders.includes(h.toLowerCase())))
+        return response;
+
+    if (!setOriginHeaders(headers, origin, options)) return response;
+
+    headers.set("Access-Control-Allow-Methods", methods.join(", "));
+    // Reflect the requested headers, if not restricted
+    const headerList = anyHeader || !options.allowHeaders ? requestedHeaders : options.allowHeaders;
+    if (headerList.length) headers.set("Access-Control-Allow-Headers", headerList.join(", "));
+    headers.set("Access-Control-Max-Age", (options.maxAge ?? DEFAULT_MAX_AGE).toString());
+
+    return response;
+}
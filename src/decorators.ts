@@ -9,7 +9,25 @@ import type {
     HTTPMatcherCheck,
     HTTPNormalizedResponse,
     HTTPResponse,
+    HTTPSchema,
+    HTTPErrorClass,
+    HTTPOpenAPIResponse,
+    HTTPPrincipal,
+    HTTPAuthRequirement,
+    HTTPGuard,
+    HTTPRateLimitOptions,
+    HTTPCacheOptions,
+    HTTPTimeoutOptions,
+    HTTPDeprecation,
+    HTTPRepository,
+    HTTPResourceOptions,
+    HTTPWebSocket,
+    HTTPWebSocketMessage,
 } from "./types";
+import type { HTTPError } from "./errors";
+import type { HTTPRoute } from "./routes";
+import { createEventStream } from "./sse";
+import { createResourceHandler, RESOURCE_OPERATIONS } from "./resource";
 
 /**
  * Assigns the HTTP role to the given service
@@ -17,7 +35,18 @@ import type {
  */
 export function HTTP(options: HttpServiceOptions = {}) {
     return function (service: ServiceCtr) {
+        if (options.deprecated) {
+            const deprecated = options.deprecated === true ? {} : options.deprecated;
+            options = { ...options, deprecated: { date: new Date(), ...deprecated } };
+        }
         Shadow.get(service)?.setCtx("$http_options", options);
+        for (const mounted of options.mount ?? []) {
+            const shadow = Shadow.get(mounted);
+            const parent = shadow?.getCtx("$http_parent");
+            if (parent && parent !== service)
+                throw new Error(`"${mounted.name}" is mounted by "${parent.name}" already`);
+            shadow?.setCtx("$http_parent", service);
+        }
         return Role(HTTP_ROLE.SERVICE)(service);
     };
 }
@@ -41,19 +70,23 @@ export function HTTPMatcher(matcher: HTTPMatcherCheck) {
 export type CORS = (request: HTTPNormalizedRequest) => HTTPCORSOptions | undefined;
 
 /**
+ * On a class the options apply to all requests handled by the service. On a handler method they apply to the handler.
+ * Any other decorated member of a http service resolves the options per request (see `CORS` type),
+ * unless options are given.
  * @class_decorator
  * @method_decorator
  */
-export function CORS(options: HTTPCORSOptions) {
+export function CORS(options?: HTTPCORSOptions) {
     return function (target: any, propertyKey?: string | symbol, descriptor?: PropertyDescriptor) {
         const shadow = Shadow.require(target);
         // CORS Handler based
         if (propertyKey) {
             shadow.addProp(HTTP_FIELD.CORS, propertyKey);
+            if (options) shadow.addField(propertyKey as string, { $http_cors: options });
         }
         // CORS Class based
         else {
-            shadow.setCtx("$http_cors", options);
+            shadow.setCtx("$http_cors", options ?? {});
         }
     };
 }
@@ -63,6 +96,8 @@ export function CORS(options: HTTPCORSOptions) {
 export type Handler = (request: HTTPNormalizedRequest) => HTTPNormalizedResponse;
 
 /**
+ * The path may contain parameters (`:id`), optional parameters (`:id?`) and a trailing wildcard (`*rest`).
+ * Static segments take precedence over parameters, parameters over wildcards.
  * @method_decorator
  */
 export function Handler(httpMethod: string = "GET", path: string = "") {
@@ -75,6 +110,43 @@ export function Handler(httpMethod: string = "GET", path: string = "") {
     };
 }
 
+/**
+ * Registers a `GET` handler, that streams the events of the returned (async) iterable as `text/event-stream`.
+ * Resuming clients send the id of the last received event, inject it with `@LastEventID`.
+ * Senders, that buffer bodies (e.g. the lambda adapter), cannot stream events.
+ *
+ * @example
+ * \@SSE("/events")
+ * async *events(@LastEventID lastEventId?: string) {
+ *     for await (const update of updates(lastEventId)) yield { id: update.id, data: update };
+ * }
+ * @param options.heartbeat Milliseconds between heartbeat comments. `0` disables them. Defaults to 15 seconds
+ * @param options.retry The reconnection time sent to the client in milliseconds
+ * @method_decorator
+ */
+export function SSE(path: string = "", options: { heartbeat?: number; retry?: number } = {}) {
+    return function (target: any, propertyKey: string, descriptor: PropertyDescriptor) {
+        Handler("GET", path)(target, propertyKey, descriptor);
+
+        const originalMethod = descriptor.value;
+        descriptor.value = async function (...args: any[]): Promise<HTTPNormalizedResponse> {
+            const events = await originalMethod.apply(this, args);
+            return {
+                status: 200,
+                headers: new globalThis.Headers({
+                    "Content-Type": "text/event-stream; charset=utf-8",
+                    "Cache-Control": "no-cache",
+                    // Disables proxy buffering of nginx
+                    "X-Accel-Buffering": "no",
+                }),
+                body: createEventStream(events, options),
+            };
+        };
+        // The arity determines the injected arguments
+        Object.defineProperty(descriptor.value, "length", { value: originalMethod.length });
+    };
+}
+
 /**
  * @method_decorator
  */
@@ -95,13 +167,46 @@ export const GET = (path: string = "") => Handler("GET", path);
  */
 export const DELETE = (path: string = "") => Handler("DELETE", path);
 
+/**
+ * @method_decorator
+ */
+export const PATCH = (path: string = "") => Handler("PATCH", path);
+
+/**
+ * Marks the handler as deprecated. Its responses carry the `Deprecation`, `Sunset` and `Link` headers.
+ * Use `HttpServiceOptions.deprecated` to deprecate all handlers of a service.
+ * @method_decorator
+ */
+export function Deprecated(deprecation: HTTPDeprecation = {}) {
+    return function (target: any, propertyKey: string, descriptor: PropertyDescriptor) {
+        Shadow.require(target).addField(propertyKey, {
+            $http_deprecated: { date: new Date(), ...deprecation },
+        });
+    };
+}
+
 // -- Parameters
 
+type ParamDecorator = (target: any, propertyKey: string | symbol, parameterIndex: number) => void;
+
 /**
+ * Injects the request body. Validated against the schema, if given.
  * @param_decorator
  */
-export function Body<B>(target: any, propertyKey: string | symbol, parameterIndex: number) {
-    Shadow.require(target).addParam(propertyKey, parameterIndex, { $http_param_type: "body" });
+export function Body(schema: HTTPSchema): ParamDecorator;
+export function Body<B>(target: any, propertyKey: string | symbol, parameterIndex: number): void;
+export function Body(targetOrSchema: any, propertyKey?: string | symbol, parameterIndex?: number): any {
+    const decorate =
+        (schema?: HTTPSchema): ParamDecorator =>
+        (target, propertyKey, parameterIndex) => {
+            Shadow.require(target).addParam(propertyKey, parameterIndex, {
+                $http_param_type: "body",
+                $http_schema: schema,
+            });
+        };
+
+    if (typeof parameterIndex === "number") decorate()(targetOrSchema, propertyKey!, parameterIndex);
+    else return decorate(targetOrSchema);
 }
 
 /**
@@ -115,6 +220,55 @@ export function Search<S extends URLSearchParams>(
     Shadow.require(target).addParam(propertyKey, parameterIndex, { $http_param_type: "search_params" });
 }
 
+/**
+ * Injects the search params as object. Repeated keys and keys ending with `[]` become arrays.
+ * Validated against the schema, if given.
+ * @param options.coerce Converts `"true"`/`"false"` to booleans and numeric strings to numbers, if no digits are lost.
+ * Defaults to `true`
+ * @param_decorator
+ */
+export function Query(schema?: HTTPSchema, options: { coerce?: boolean } = {}): ParamDecorator {
+    return function (target, propertyKey, parameterIndex) {
+        Shadow.require(target).addParam(propertyKey, parameterIndex, {
+            $http_param_type: "query",
+            $http_schema: schema,
+            $http_coerce: options.coerce ?? true,
+        });
+    };
+}
+
+/**
+ * Injects the authenticated principal, see `@Authenticator`
+ * @param_decorator
+ */
+export function Principal<P extends HTTPPrincipal>(
+    target: any,
+    propertyKey: string | symbol,
+    parameterIndex: number
+) {
+    Shadow.require(target).addParam(propertyKey, parameterIndex, { $http_param_type: "principal" });
+}
+
+/**
+ * Injects the `Last-Event-ID` header sent by resuming event stream clients, see `@SSE`
+ * @param_decorator
+ */
+export function LastEventID(target: any, propertyKey: string | symbol, parameterIndex: number) {
+    Shadow.require(target).addParam(propertyKey, parameterIndex, { $http_param_type: "last_event_id" });
+}
+
+/**
+ * Injects the session of the request. See `createSessionService` for cookie sessions.
+ * @param_decorator
+ */
+export function Session<S extends HTTPSession>(
+    target: any,
+    propertyKey: string | symbol,
+    parameterIndex: number
+) {
+    Shadow.require(target).addParam(propertyKey, parameterIndex, { $http_param_type: "session" });
+}
+
 /**
  * @param_decorator
  */
@@ -133,9 +287,48 @@ export function Headers<H extends Headers>(
     Shadow.require(target).addParam(propertyKey, parameterIndex, { $http_param_type: "headers" });
 }
 
+/**
+ * Injects the path parameter with the given name or all path parameters, if no name is given.
+ * Validated against the schema, if given.
+ * @param_decorator
+ */
+export function Param(schema: HTTPSchema): ParamDecorator;
+export function Param(name?: string, schema?: HTTPSchema): ParamDecorator;
+export function Param(nameOrSchema?: string | HTTPSchema, schema?: HTTPSchema): ParamDecorator {
+    const name = typeof nameOrSchema === "string" ? nameOrSchema : undefined;
+    if (nameOrSchema !== undefined && typeof nameOrSchema !== "string") schema = nameOrSchema;
+
+    return function (target, propertyKey, parameterIndex) {
+        Shadow.require(target).addParam(propertyKey, parameterIndex, {
+            $http_param_type: "param",
+            $http_param_name: name,
+            $http_schema: schema,
+        });
+    };
+}
+
+/**
+ * Injects the logger of the request (see `createLoggingService`). A silent logger, if no logger is set.
+ * @param_decorator
+ */
+export function Logger(target: any, propertyKey: string | symbol, parameterIndex: number) {
+    Shadow.require(target).addParam(propertyKey, parameterIndex, { $http_param_type: "logger" });
+}
+
+/**
+ * Injects the `AbortSignal` of the request (see `HTTPNormalizedRequest.signal`).
+ * A signal, that is never aborted, if the request has none.
+ * @param_decorator
+ */
+export function Signal(target: any, propertyKey: string | symbol, parameterIndex: number) {
+    Shadow.require(target).addParam(propertyKey, parameterIndex, { $http_param_type: "signal" });
+}
+
 // -- Parsers
 
-export type Parser = (request: HTTPNormalizedRequest) => Partial<HTTPNormalizedRequest> | void;
+export type Parser = (
+    request: HTTPNormalizedRequest
+) => Partial<HTTPNormalizedRequest> | void | Promise<Partial<HTTPNormalizedRequest> | void>;
 
 export type Receive = Parser;
 
@@ -150,13 +343,31 @@ export function Receive(target: any, propertyKey: string, descriptor: PropertyDe
 export type Middleware = Parser;
 
 /**
- * Transforms the request.
+ * Transforms the request. Use `@Use` to wrap handlers.
  * @method_decorator
  */
 export function Middleware(target: any, propertyKey: string, descriptor: PropertyDescriptor) {
     Shadow.require(target).addMethod(HTTP_FIELD.REQUEST_PARSER, propertyKey);
 }
 
+export type Use = (
+    request: HTTPNormalizedRequest,
+    next: (request?: HTTPNormalizedRequest) => Promise<HTTPNormalizedResponse>
+) => HTTPNormalizedResponse | Promise<HTTPNormalizedResponse>;
+
+/**
+ * Wraps the handling of matched requests. Call `next` to continue with the next middleware or the handler,
+ * optionally with a modified request, or return a response to short-circuit.
+ * Errors thrown by the handler reject `next`.
+ *
+ * Middlewares are composed in order of the http service priorities and their declaration,
+ * the first being the outermost. Use `@HTTPMatcher` to scope them.
+ * @method_decorator
+ */
+export function Use(target: any, propertyKey: string, descriptor: PropertyDescriptor) {
+    Shadow.require(target).addMethod(HTTP_FIELD.AROUND_MIDDLEWARE, propertyKey);
+}
+
 export type BodyParser = (request: HTTPNormalizedRequest) => any;
 
 /**
@@ -200,8 +411,8 @@ export function SearchParser(target: any, propertyKey: string, descriptor: Prope
     Shadow.require(target).addMethod(HTTP_FIELD.REQUEST_PARSER, propertyKey);
     const originalMethod = descriptor.value;
     descriptor.value = async function (request: HTTPNormalizedRequest) {
-        const search = await originalMethod.apply(this, [request]);
-        return { ...request, search };
+        const searchParams = await originalMethod.apply(this, [request]);
+        return { ...request, searchParams };
     };
 }
 
@@ -240,13 +451,14 @@ export function ContextProvider(target: any, propertyKey: string, descriptor: Pr
 export type SessionProvider = (request: HTTPNormalizedRequest) => HTTPSession | Promise<HTTPSession>;
 
 /**
+ * Runs in the auth phase, after all parsers.
  * The decorated method should throw an Error if any authentication fails.
  *
  * **Be careful, the decorated method will be modified and will return a `HTTPNormalizedRequest`**.
  * @method_decorator
  */
 export function SessionProvider(target: any, propertyKey: string, descriptor: PropertyDescriptor) {
-    Shadow.require(target).addMethod(HTTP_FIELD.REQUEST_PARSER, propertyKey);
+    Shadow.require(target).addMethod(HTTP_FIELD.AUTH, propertyKey);
     const originalMethod = descriptor.value;
     descriptor.value = async function (request: HTTPNormalizedRequest) {
         const session = await originalMethod.apply(this, [request]);
@@ -254,12 +466,347 @@ export function SessionProvider(target: any, propertyKey: string, descriptor: Pr
     };
 }
 
+// -- Auth
+
+export type Authenticator = (
+    request: HTTPNormalizedRequest
+) => HTTPPrincipal | null | undefined | Promise<HTTPPrincipal | null | undefined>;
+
+/**
+ * Authenticates requests in the auth phase. Authenticators run until one returns a principal,
+ * which is set as `request.principal`. Return nothing if the request has no credentials for this authenticator
+ * and throw `HTTPUnauthorizedError` if they are invalid.
+ *
+ * **Be careful, the decorated method will be modified and will return a `HTTPNormalizedRequest`**.
+ * @param challenges The `WWW-Authenticate` challenges sent, if a request requires authentication, e.g. `Bearer realm="api"`
+ * @method_decorator
+ */
+export function Authenticator(challenges: string | string[] = []) {
+    return function (target: any, propertyKey: string, descriptor: PropertyDescriptor) {
+        const shadow = Shadow.require(target);
+        shadow.addMethod(HTTP_FIELD.AUTH, propertyKey);
+        shadow.addField(propertyKey, {
+            $http_challenges: Array.isArray(challenges) ? challenges : [challenges],
+        });
+
+        const originalMethod = descriptor.value;
+        descriptor.value = async function (request: HTTPNormalizedRequest) {
+            if (request.principal) return request;
+            const principal = await originalMethod.apply(this, [request]);
+            if (!principal) return request;
+            return { ...request, principal };
+        };
+    };
+}
+
+function addAuthRequirement(
+    target: any,
+    propertyKey: string | undefined,
+    descriptor: PropertyDescriptor | undefined,
+    requirement: HTTPAuthRequirement
+) {
+    const shadow = Shadow.require(target);
+    const current =
+        (descriptor ? shadow.getField(propertyKey as string)?.$http_auth : shadow.getCtx("$http_auth")) ?? {};
+    const merged: HTTPAuthRequirement = {
+        authenticated: current.authenticated || requirement.authenticated,
+        roles: requirement.roles ?? current.roles,
+        // Decorators are applied bottom up
+        guards: [...(requirement.guards ?? []), ...(current.guards ?? [])],
+    };
+
+    if (descriptor) shadow.addField(propertyKey as string, { $http_auth: merged });
+    else shadow.setCtx("$http_auth", merged);
+}
+
+/**
+ * Requires an authenticated principal (see `@Authenticator`). Unauthenticated requests are rejected with
+ * _401 Unauthorized_ and the challenges of the authenticators in the `WWW-Authenticate` header.
+ *
+ * On a http service the requirement applies to all requests it matches, on the handler service to all handlers.
+ * Requirements of all levels must be met.
+ * @class_decorator
+ * @method_decorator
+ */
+export function Authenticated() {
+    return function (target: any, propertyKey?: string, descriptor?: PropertyDescriptor) {
+        addAuthRequirement(target, propertyKey, descriptor, { authenticated: true });
+    };
+}
+
+/**
+ * Requires a principal with any of the roles. Implies `@Authenticated`.
+ * Principals without any of the roles are rejected with _403 Forbidden_.
+ * @class_decorator
+ * @method_decorator
+ */
+export function Roles(...roles: string[]) {
+    return function (target: any, propertyKey?: string, descriptor?: PropertyDescriptor) {
+        addAuthRequirement(target, propertyKey, descriptor, { authenticated: true, roles });
+    };
+}
+
+/**
+ * Denies requests, for which the guard returns `false`, with _403 Forbidden_,
+ * or _401 Unauthorized_ if the request is not authenticated. Guards may throw their own `HTTPError`s.
+ * Can be used multiple times.
+ * @class_decorator
+ * @method_decorator
+ */
+export function Guard(guard: HTTPGuard) {
+    return function (target: any, propertyKey?: string, descriptor?: PropertyDescriptor) {
+        addAuthRequirement(target, propertyKey, descriptor, { guards: [guard] });
+    };
+}
+
+// -- Rate limiting
+
+/**
+ * Limits the requests per client. Exceeding requests are rejected with _429 Too Many Requests_.
+ * Responses carry the `RateLimit-Limit`, `RateLimit-Remaining` and `RateLimit-Reset` headers.
+ *
+ * On a http service the limit applies to all requests it matches (see `@HTTPMatcher`),
+ * on the handler service to all handlers together and on a handler to the handler only.
+ * Limits of all levels are enforced.
+ * @class_decorator
+ * @method_decorator
+ */
+export function RateLimit(options: HTTPRateLimitOptions) {
+    return function (target: any, propertyKey?: string, descriptor?: PropertyDescriptor) {
+        const shadow = Shadow.require(target);
+        if (descriptor) shadow.addField(propertyKey as string, { $http_rate_limit: options });
+        else shadow.setCtx("$http_rate_limit", options);
+    };
+}
+
+// -- Caching
+
+/**
+ * Sets the `Cache-Control` header of successful responses, unless the handler sets it.
+ * On a handler it overrides the options of the handler service.
+ * Use `createCacheService` to answer conditional requests.
+ * @example
+ * \@Cache({ public: true, maxAge: 60, staleWhileRevalidate: 300 })
+ * @class_decorator
+ * @method_decorator
+ */
+export function Cache(options: HTTPCacheOptions) {
+    return function (target: any, propertyKey?: string, descriptor?: PropertyDescriptor) {
+        const shadow = Shadow.require(target);
+        if (descriptor) shadow.addField(propertyKey as string, { $http_cache: options });
+        else shadow.setCtx("$http_cache", options);
+    };
+}
+
+// -- Timeouts
+
+/**
+ * Limits the time the handler takes to respond, including reading the request body.
+ * When the time is up, the signal of the request is aborted (see `@Signal`) and
+ * _503 Service Unavailable_ (or _504 Gateway Timeout_) is sent. Streamed response bodies are not limited.
+ * On a handler it overrides the timeout of the handler service.
+ * @param timeout In milliseconds
+ * @class_decorator
+ * @method_decorator
+ */
+export function Timeout(timeout: number, options: Omit<HTTPTimeoutOptions, "timeout"> = {}) {
+    return function (target: any, propertyKey?: string, descriptor?: PropertyDescriptor) {
+        const shadow = Shadow.require(target);
+        if (descriptor) shadow.addField(propertyKey as string, { $http_timeout: { ...options, timeout } });
+        else shadow.setCtx("$http_timeout", { ...options, timeout });
+    };
+}
+
+// -- Resources
+
+const RESOURCE_ROUTES = {
+    list: { method: "GET", item: false },
+    get: { method: "GET", item: true },
+    create: { method: "POST", item: false },
+    update: { method: "PUT", item: true },
+    patch: { method: "PATCH", item: true },
+    delete: { method: "DELETE", item: true },
+} as const;
+
+/**
+ * Generates CRUD handlers for the repository:
+ * - `GET <path>` lists the entities (see `parseRepositoryQuery` for filtering, sorting and pagination)
+ * - `GET <path>/:id` gets an entity
+ * - `POST <path>` creates an entity (_201 Created_)
+ * - `PUT <path>/:id` replaces an entity
+ * - `PATCH <path>/:id` merges the body into an entity
+ * - `DELETE <path>/:id` deletes an entity (_204 No Content_)
+ *
+ * Missing entities result in _404 Not Found_, `RepositoryConflictError`s in _409 Conflict_.
+ * A method of the class with the name of an operation overrides it and is registered with its route,
+ * unless it is a handler already. Bodies must be parsed into objects by a `@BodyParser`.
+ *
+ * @example
+ * \@Resource("/users", new HTTPMemoryRepository<User>(), { operations: ["list", "get", "create"] })
+ * class Users {
+ *     async create(@Body(userSchema) user: User) { ... }
+ * }
+ * @class_decorator
+ */
+export function Resource(path: string, repository: HTTPRepository, options: HTTPResourceOptions = {}) {
+    return function (service: ServiceCtr) {
+        const shadow = Shadow.require(service);
+        const base = path.replace(/\/$/, "");
+
+        for (const operation of options.operations ?? RESOURCE_OPERATIONS) {
+            const route = RESOURCE_ROUTES[operation];
+            const field = {
+                $http_method: route.method,
+                $http_path: route.item ? `${base}/:id` : path,
+                method: true,
+            };
+
+            if (operation in service.prototype) {
+                if (!shadow.getField(operation)?.$http_method) shadow.addField(operation, field);
+                continue;
+            }
+
+            service.prototype[operation] = createResourceHandler(operation, path, repository, options);
+            shadow.addField(operation, field);
+
+            if (operation === "list") {
+                shadow.addParam(operation, 0, { $http_param_type: "search_params" });
+                continue;
+            }
+            if (route.item)
+                shadow.addParam(operation, 0, { $http_param_type: "param", $http_param_name: "id" });
+            if (operation === "create" || operation === "update" || operation === "patch") {
+                shadow.addParam(operation, route.item ? 1 : 0, {
+                    $http_param_type: "body",
+                    $http_schema: options.schemas?.[operation],
+                });
+            }
+        }
+    };
+}
+
+// -- WebSockets
+
+/**
+ * Accepts WebSocket upgrade requests for the path. The path may contain parameters like handler paths.
+ * The upgrade request passes the receive, parse and auth phases. Its `Origin` must be allowed by the CORS options
+ * of the service and the http services matching the path, or equal the `Host` if there are no CORS options.
+ * `@Authenticated`, `@Roles` and `@Guard` of the service apply.
+ *
+ * Use `@OnOpen`, `@OnMessage` and `@OnClose` to handle the connection.
+ * @class_decorator
+ */
+export function WebSocket(path: string) {
+    return function (service: ServiceCtr) {
+        Shadow.get(service)?.setCtx("$http_websocket", path);
+    };
+}
+
+export type OnOpen = (socket: HTTPWebSocket) => void | Promise<void>;
+
+/**
+ * Invoked when a connection of the `@WebSocket` service is accepted. Throw to close the connection.
+ * @method_decorator
+ */
+export function OnOpen(target: any, propertyKey: string, descriptor: PropertyDescriptor) {
+    Shadow.require(target).addMethod(HTTP_FIELD.WEBSOCKET_OPEN, propertyKey);
+}
+
+export type OnMessage = (socket: HTTPWebSocket, message: HTTPWebSocketMessage) => void | Promise<void>;
+
+/**
+ * Invoked for each message of a connection of the `@WebSocket` service.
+ * Text messages are received as strings, binary messages as `Uint8Array`s.
+ * Errors close the connection with _1011 Internal Error_.
+ * @method_decorator
+ */
+export function OnMessage(target: any, propertyKey: string, descriptor: PropertyDescriptor) {
+    Shadow.require(target).addMethod(HTTP_FIELD.WEBSOCKET_MESSAGE, propertyKey);
+}
+
+export type OnClose = (socket: HTTPWebSocket, code: number, reason: string) => void | Promise<void>;
+
+/**
+ * Invoked when a connection of the `@WebSocket` service is closed, by either side. Errors are ignored.
+ * @method_decorator
+ */
+export function OnClose(target: any, propertyKey: string, descriptor: PropertyDescriptor) {
+    Shadow.require(target).addMethod(HTTP_FIELD.WEBSOCKET_CLOSE, propertyKey);
+}
+
+// -- Content
+
+export type ContentParser = (body: Uint8Array, request: HTTPNormalizedRequest) => any;
+
+/**
+ * Parses raw request bodies of the given media types. Raw bodies are strings, `Uint8Array`s and `ReadableStream`s
+ * received by adapters. If content parsers are registered, but none accepts the `Content-Type`,
+ * the request is rejected with _415 Unsupported Media Type_.
+ * @param mediaTypes Media types, that may contain wildcards (`text/*`, `application/*+json`)
+ * @param options.limit Body size limit in bytes. Larger bodies are rejected with _413 Payload Too Large_. Defaults to 1 MiB
+ * @method_decorator
+ */
+export function ContentParser(mediaTypes: string | string[], options: { limit?: number } = {}) {
+    return function (target: any, propertyKey: string, descriptor: PropertyDescriptor) {
+        const shadow = Shadow.require(target);
+        shadow.addMethod(HTTP_FIELD.CONTENT_PARSER, propertyKey);
+        shadow.addField(propertyKey, {
+            $http_media_types: Array.isArray(mediaTypes) ? mediaTypes : [mediaTypes],
+            $http_body_limit: options.limit,
+        });
+    };
+}
+
+export type ContentSerializer = (
+    body: any,
+    request: HTTPNormalizedRequest,
+    response: HTTPNormalizedResponse
+) => string | Uint8Array | Promise<string | Uint8Array>;
+
+/**
+ * Serializes response bodies to the given media types. The serializer is selected by the `Accept` header
+ * or the `Content-Type` of the response, if set. If no serializer is acceptable,
+ * the request is rejected with _406 Not Acceptable_.
+ * Strings, `Uint8Array`s, streams and async iterables are sent as they are.
+ * @method_decorator
+ */
+export function ContentSerializer(mediaTypes: string | string[]) {
+    return function (target: any, propertyKey: string, descriptor: PropertyDescriptor) {
+        const shadow = Shadow.require(target);
+        shadow.addMethod(HTTP_FIELD.CONTENT_SERIALIZER, propertyKey);
+        shadow.addField(propertyKey, {
+            $http_media_types: Array.isArray(mediaTypes) ? mediaTypes : [mediaTypes],
+        });
+    };
+}
+
+// -- Errors
+
+export type Catch = (
+    error: any,
+    request: HTTPNormalizedRequest
+) => HTTPError | HTTPNormalizedResponse | void | Promise<HTTPError | HTTPNormalizedResponse | void>;
+
+/**
+ * Transforms errors thrown while handling a request to a `HTTPError` or a response.
+ * Transformers are tried in order of the http services and their declaration, until one returns a result.
+ * @param errorClass Only errors of this class are passed. Without it, all errors except `HTTPError`s are passed.
+ * @method_decorator
+ */
+export function Catch(errorClass?: HTTPErrorClass) {
+    return function (target: any, propertyKey: string, descriptor: PropertyDescriptor) {
+        const shadow = Shadow.require(target);
+        shadow.addMethod(HTTP_FIELD.ERROR_TRANSFORMER, propertyKey);
+        if (errorClass) shadow.addField(propertyKey, { $http_catch: errorClass });
+    };
+}
+
 // -- Refine
 
 export type Refine = (
     request: HTTPNormalizedRequest,
     response: HTTPNormalizedResponse
-) => HTTPNormalizedResponse;
+) => HTTPNormalizedResponse | Promise<HTTPNormalizedResponse>;
 
 /**
  * Refines a response before sending it
@@ -269,6 +816,133 @@ export function Refine<R extends Refine>(target: any, propertyKey: string, descr
     Shadow.require(target).addMethod(HTTP_FIELD.RESPONSE_REFINER, propertyKey);
 }
 
+// -- Lifecycle
+
+export type OnRequest = (request: HTTPNormalizedRequest) => void | Promise<void>;
+
+/**
+ * Invoked when a request was received and identified (see `HTTPNormalizedRequest.id`), before it is parsed.
+ *
+ * The lifecycle hooks of the http services matching the request path are invoked in order of their priority.
+ * They observe the request, e.g. to log or trace it. Their errors are ignored.
+ * @method_decorator
+ */
+export function OnRequest(target: any, propertyKey: string, descriptor: PropertyDescriptor) {
+    Shadow.require(target).addMethod(HTTP_FIELD.ON_REQUEST, propertyKey);
+}
+
+export type OnHandlerMatched = (request: HTTPNormalizedRequest, route: HTTPRoute) => void | Promise<void>;
+
+/**
+ * Invoked when the handler of the request is matched, before the request is authorized and its body parsed
+ * @method_decorator
+ */
+export function OnHandlerMatched(target: any, propertyKey: string, descriptor: PropertyDescriptor) {
+    Shadow.require(target).addMethod(HTTP_FIELD.ON_HANDLER_MATCHED, propertyKey);
+}
+
+export type OnError = (error: unknown, request: HTTPNormalizedRequest) => void | Promise<void>;
+
+/**
+ * Invoked with the error thrown while handling a request, before it is transformed (see `@Catch`)
+ * @method_decorator
+ */
+export function OnError(target: any, propertyKey: string, descriptor: PropertyDescriptor) {
+    Shadow.require(target).addMethod(HTTP_FIELD.ON_ERROR, propertyKey);
+}
+
+export type HTTPResponseInfo = {
+    /** Milliseconds since the request was received */
+    duration: number;
+    /** The matched handler */
+    route?: HTTPRoute;
+    /** The error, if the response is an error response */
+    error?: unknown;
+};
+
+export type OnResponse = (
+    request: HTTPNormalizedRequest,
+    response: HTTPNormalizedResponse,
+    info: HTTPResponseInfo
+) => void | Promise<void>;
+
+/**
+ * Invoked with the final response of a request, including error responses, before it is sent
+ * @method_decorator
+ */
+export function OnResponse(target: any, propertyKey: string, descriptor: PropertyDescriptor) {
+    Shadow.require(target).addMethod(HTTP_FIELD.ON_RESPONSE, propertyKey);
+}
+
+// -- OpenAPI
+
+/**
+ * Describes the operation in the OpenAPI document
+ * @method_decorator
+ */
+export function Summary(summary: string, description?: string) {
+    return function (target: any, propertyKey: string, descriptor: PropertyDescriptor) {
+        Shadow.require(target).addField(propertyKey, {
+            $http_summary: summary,
+            $http_description: description,
+        });
+    };
+}
+
+/**
+ * Tags the operations of the service or the handler in the OpenAPI document
+ * @class_decorator
+ * @method_decorator
+ */
+export function Tags(...tags: string[]) {
+    return function (target: any, propertyKey?: string, descriptor?: PropertyDescriptor) {
+        const shadow = Shadow.require(target);
+        if (descriptor) shadow.addField(propertyKey as string, { $http_tags: tags });
+        else shadow.setCtx("$http_tags", tags);
+    };
+}
+
+/**
+ * Documents a response of the handler in the OpenAPI document. Can be used multiple times.
+ * @method_decorator
+ */
+export function Responds(
+    status: HTTPOpenAPIResponse["status"],
+    options: Omit<HTTPOpenAPIResponse, "status"> = {}
+) {
+    return function (target: any, propertyKey: string, descriptor: PropertyDescriptor) {
+        const shadow = Shadow.require(target);
+        // Decorators are applied bottom up
+        const responses = [{ ...options, status }, ...(shadow.getField(propertyKey)?.$http_responses ?? [])];
+        shadow.addField(propertyKey, { $http_responses: responses });
+    };
+}
+
+/**
+ * Requires the security scheme for the operations of the service or the handler in the OpenAPI document.
+ * Can be used multiple times for alternative schemes.
+ * @param scheme The name of a security scheme in `HTTPOpenAPIOptions.securitySchemes`
+ * @class_decorator
+ * @method_decorator
+ */
+export function Security(scheme: string, scopes: string[] = []) {
+    return function (target: any, propertyKey?: string, descriptor?: PropertyDescriptor) {
+        const shadow = Shadow.require(target);
+        if (descriptor) {
+            const security = [
+                { [scheme]: scopes },
+                ...(shadow.getField(propertyKey as string)?.$http_security ?? []),
+            ];
+            shadow.addField(propertyKey as string, { $http_security: security });
+        } else {
+            shadow.setCtx("$http_security", [
+                { [scheme]: scopes },
+                ...(shadow.getCtx("$http_security") ?? []),
+            ]);
+        }
+    };
+}
+
 // -- Send
 
 export type Send = (
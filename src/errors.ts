@@ -1,4 +1,7 @@
-import type { HTTPNormalizedResponse } from "./types";
+import type { HTTPNormalizedResponse, HTTPProblemDetails, HTTPValidationIssue } from "./types";
+
+/** Problem details members, that are not taken from the response body */
+const RESERVED_PROBLEM_MEMBERS = ["type", "title", "status", "instance"];
 
 export class HTTPError extends Error {
     constructor(
@@ -8,14 +11,57 @@ export class HTTPError extends Error {
     ) {
         super(response.body);
     }
+
+    /**
+     * RFC 9457 problem details. String bodies become the `detail`,
+     * the fields of object bodies become extension members (`message` becomes the `detail`).
+     * Fields named like the `type`, `title`, `status` and `instance` members are skipped.
+     * @param instance Identifies the occurrence, e.g. the request path
+     */
+    toProblemDetails(instance?: string): HTTPProblemDetails {
+        const status = this.response.status ?? 500;
+        const problem: HTTPProblemDetails = { type: "about:blank", title: this.label ?? "Error", status };
+        const body = this.response.body;
+
+        if (typeof body === "string") problem.detail = body;
+        else if (body && typeof body === "object") {
+            const { message, ...extensions } = body;
+            for (const [name, value] of Object.entries(extensions)) {
+                if (!RESERVED_PROBLEM_MEMBERS.includes(name)) problem[name] = value;
+            }
+            if (typeof message === "string") problem.detail = message;
+        }
+        if (instance) problem.instance = instance;
+
+        return problem;
+    }
+
+    /**
+     * @returns The response with the problem details as `application/problem+json` body
+     */
+    toProblemResponse(instance?: string): HTTPNormalizedResponse {
+        const headers = new Headers(this.response.headers);
+        headers.set("Content-Type", "application/problem+json");
+        return { ...this.response, headers, body: this.toProblemDetails(instance) };
+    }
 }
 
 export class HTTPUnauthorizedError extends HTTPError {
-    constructor(responseMessage?: string, cause?: unknown) {
+    /**
+     * @param challenges Sent in the `WWW-Authenticate` header, e.g. `Bearer realm="api"`
+     */
+    constructor(
+        responseMessage?: string,
+        cause?: unknown,
+        readonly challenges: string[] = []
+    ) {
         super(
             {
                 status: 401,
                 body: responseMessage ?? "Unauthorized",
+                ...(challenges.length && {
+                    headers: new Headers({ "WWW-Authenticate": challenges.join(", ") }),
+                }),
             },
             cause,
             "Unauthorized"
@@ -49,6 +95,59 @@ export class HTTPNotFoundError extends HTTPError {
     }
 }
 
+export class HTTPMethodNotAllowedError extends HTTPError {
+    /**
+     * @param allow The methods allowed for the requested path. Sent in the `Allow` header.
+     */
+    constructor(readonly allow: string[], responseMessage?: string, cause?: unknown) {
+        super(
+            {
+                status: 405,
+                body: responseMessage ?? "Method Not Allowed",
+                headers: new Headers({ Allow: allow.join(", ") }),
+            },
+            cause,
+            "Method Not Allowed"
+        );
+    }
+}
+
+export class HTTPNotAcceptableError extends HTTPError {
+    constructor(responseMessage?: string, cause?: unknown) {
+        super(
+            {
+                status: 406,
+                body: responseMessage ?? "Not Acceptable",
+            },
+            cause,
+            "Not Acceptable"
+        );
+    }
+}
+
+export class HTTPTooManyRequestsError extends HTTPError {
+    /**
+     * @param retryAfter Seconds until the client may retry. Sent in the `Retry-After` header.
+     */
+    constructor(
+        readonly retryAfter?: number,
+        responseMessage?: string,
+        cause?: unknown
+    ) {
+        super(
+            {
+                status: 429,
+                body: responseMessage ?? "Too Many Requests",
+                ...(retryAfter !== undefined && {
+                    headers: new Headers({ "Retry-After": String(retryAfter) }),
+                }),
+            },
+            cause,
+            "Too Many Requests"
+        );
+    }
+}
+
 export class HTTPBadRequestError extends HTTPError {
     constructor(responseMessage?: string, cause?: unknown) {
         super(
@@ -62,6 +161,28 @@ export class HTTPBadRequestError extends HTTPError {
     }
 }
 
+/**
+ * Lists every invalid field in the response body.
+ * Invalid bodies respond with _422 Unprocessable Entity_, invalid query or path parameters with _400 Bad Request_.
+ */
+export class HTTPValidationError extends HTTPError {
+    constructor(
+        readonly issues: HTTPValidationIssue[],
+        cause?: unknown
+    ) {
+        const status = issues.every((issue) => issue.source === "body") ? 422 : 400;
+        super(
+            {
+                status,
+                body: { message: "Validation failed", errors: issues },
+            },
+            cause,
+            status === 422 ? "Unprocessable Entity" : "Bad Request"
+        );
+        this.message = "Validation failed";
+    }
+}
+
 export class HTTPConflictError extends HTTPError {
     constructor(responseMessage?: string, cause?: unknown) {
         super(
@@ -75,6 +196,68 @@ export class HTTPConflictError extends HTTPError {
     }
 }
 
+export class HTTPPreconditionFailedError extends HTTPError {
+    constructor(responseMessage?: string, cause?: unknown) {
+        super(
+            {
+                status: 412,
+                body: responseMessage ?? "Precondition Failed",
+            },
+            cause,
+            "Precondition Failed"
+        );
+    }
+}
+
+export class HTTPPayloadTooLargeError extends HTTPError {
+    constructor(responseMessage?: string, cause?: unknown) {
+        super(
+            {
+                status: 413,
+                body: responseMessage ?? "Payload Too Large",
+            },
+            cause,
+            "Payload Too Large"
+        );
+    }
+}
+
+export class HTTPUnsupportedMediaTypeError extends HTTPError {
+    constructor(responseMessage?: string, cause?: unknown) {
+        super(
+            {
+                status: 415,
+                body: responseMessage ?? "Unsupported Media Type",
+            },
+            cause,
+            "Unsupported Media Type"
+        );
+    }
+}
+
+export class HTTPRangeNotSatisfiableError extends HTTPError {
+    /**
+     * @param size The size of the representation in bytes. Sent in the `Content-Range` header.
+     */
+    constructor(
+        readonly size?: number,
+        responseMessage?: string,
+        cause?: unknown
+    ) {
+        super(
+            {
+                status: 416,
+                body: responseMessage ?? "Range Not Satisfiable",
+                ...(size !== undefined && {
+                    headers: new Headers({ "Content-Range": `bytes */${size}` }),
+                }),
+            },
+            cause,
+            "Range Not Satisfiable"
+        );
+    }
+}
+
 export class HTTPInternalServerError extends HTTPError {
     constructor(responseMessage?: string, cause?: unknown) {
         super(
@@ -87,3 +270,108 @@ export class HTTPInternalServerError extends HTTPError {
         );
     }
 }
+
+export class HTTPServiceUnavailableError extends HTTPError {
+    /**
+     * @param retryAfter Seconds until the client may retry. Sent in the `Retry-After` header.
+     */
+    constructor(
+        readonly retryAfter?: number,
+        responseMessage?: string,
+        cause?: unknown
+    ) {
+        super(
+            {
+                status: 503,
+                body: responseMessage ?? "Service Unavailable",
+                ...(retryAfter !== undefined && {
+                    headers: new Headers({ "Retry-After": String(retryAfter) }),
+                }),
+            },
+            cause,
+            "Service Unavailable"
+        );
+    }
+}
+
+export class HTTPGatewayTimeoutError extends HTTPError {
+    constructor(responseMessage?: string, cause?: unknown) {
+        super(
+            {
+                status: 504,
+                body: responseMessage ?? "Gateway Timeout",
+            },
+            cause,
+            "Gateway Timeout"
+        );
+    }
+}
+
+/**
+ * Maps a received error response back to the matching `HTTPError` subclass.
+ * Responses with a status without subclass become a plain `HTTPError`.
+ */
+export function toHTTPError(response: HTTPNormalizedResponse): HTTPError {
+    const body = response.body;
+    const message: string | undefined =
+        typeof body === "string"
+            ? body
+            : typeof body === "object"
+              ? (body?.message ?? body?.detail)
+              : undefined;
+
+    if ((response.status === 400 || response.status === 422) && Array.isArray(body?.errors)) {
+        return new HTTPValidationError(body.errors);
+    }
+
+    switch (response.status) {
+        case 400:
+            return new HTTPBadRequestError(message);
+        case 401:
+            return new HTTPUnauthorizedError(
+                message,
+                undefined,
+                response.headers?.has("WWW-Authenticate") ? [response.headers.get("WWW-Authenticate")!] : []
+            );
+        case 403:
+            return new HTTPForbiddenError(message);
+        case 404:
+            return new HTTPNotFoundError(message);
+        case 405:
+            return new HTTPMethodNotAllowedError(
+                (response.headers?.get("Allow") ?? "").split(",").map((m) => m.trim()),
+                message
+            );
+        case 406:
+            return new HTTPNotAcceptableError(message);
+        case 409:
+            return new HTTPConflictError(message);
+        case 412:
+            return new HTTPPreconditionFailedError(message);
+        case 413:
+            return new HTTPPayloadTooLargeError(message);
+        case 415:
+            return new HTTPUnsupportedMediaTypeError(message);
+        case 416: {
+            const size = Number(response.headers?.get("Content-Range")?.split("/")[1] ?? NaN);
+            return new HTTPRangeNotSatisfiableError(Number.isNaN(size) ? undefined : size, message);
+        }
+        case 429: {
+            const retryAfter = Number(response.headers?.get("Retry-After") ?? NaN);
+            return new HTTPTooManyRequestsError(Number.isNaN(retryAfter) ? undefined : retryAfter, message);
+        }
+        case 500:
+            return new HTTPInternalServerError(message);
+        case 503: {
+            const retryAfter = Number(response.headers?.get("Retry-After") ?? NaN);
+            return new HTTPServiceUnavailableError(
+                Number.isNaN(retryAfter) ? undefined : retryAfter,
+                message
+            );
+        }
+        case 504:
+            return new HTTPGatewayTimeoutError(message);
+        default:
+            return new HTTPError(response);
+    }
+}
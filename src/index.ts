@@ -3,3 +3,19 @@ export * from "./util";
 export * from "./module";
 export * from "./types";
 export * from "./errors";
+export * from "./router";
+export * from "./cors";
+export * from "./validation";
+export * from "./content";
+export * from "./openapi";
+export * from "./client";
+export * from "./testing";
+export * from "./session";
+export * from "./auth";
+export * from "./ratelimit";
+export * from "./sse";
+export * from "./websocket";
+export * from "./cache";
+export * from "./resource";
+export * from "./routes";
+export * from "./logging";
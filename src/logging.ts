@@ -0,0 +1,112 @@
+import type { HTTPLogger, HTTPLogLevel, HTTPNormalizedRequest, HTTPTraceContext } from "./types";
+
+const LEVELS: HTTPLogLevel[] = ["debug", "info", "warn", "error"];
+
+/** Incoming request ids are only accepted, if they are short and printable */
+const REQUEST_ID = /^[\w.:@/+=-]{1,128}$/;
+
+const TRACEPARENT = /^([0-9a-f]{2})-([0-9a-f]{32})-([0-9a-f]{16})-([0-9a-f]{2})(-.*)?$/;
+
+/**
+ * Discards all entries
+ */
+export const SILENT_LOGGER: HTTPLogger = {
+    debug() {},
+    info() {},
+    warn() {},
+    error() {},
+};
+
+/**
+ * Writes entries as JSON lines to the console. Warnings and errors are written to stderr.
+ */
+export class HTTPConsoleLogger implements HTTPLogger {
+    /**
+     * @param level The minimum level. Defaults to `info`
+     */
+    constructor(
+        private _level: HTTPLogLevel = "info",
+        private _fields: Record<string, unknown> = {}
+    ) {}
+
+    private _log(level: HTTPLogLevel, message: string, fields?: Record<string, unknown>) {
+        if (LEVELS.indexOf(level) < LEVELS.indexOf(this._level)) return;
+
+        const entry = JSON.stringify({
+            time: new Date().toISOString(),
+            level,
+            message,
+            ...this._fields,
+            ...fields,
+        });
+        if (level === "warn" || level === "error") console.error(entry);
+        else console.log(entry);
+    }
+
+    debug(message: string, fields?: Record<string, unknown>) {
+        this._log("debug", message, fields);
+    }
+
+    info(message: string, fields?: Record<string, unknown>) {
+        this._log("info", message, fields);
+    }
+
+    warn(message: string, fields?: Record<string, unknown>) {
+        this._log("warn", message, fields);
+    }
+
+    error(message: string, fields?: Record<string, unknown>) {
+        this._log("error", message, fields);
+    }
+
+    child(fields: Record<string, unknown>): HTTPLogger {
+        return new HTTPConsoleLogger(this._level, { ...this._fields, ...fields });
+    }
+}
+
+/**
+ * @returns A logger, that adds the fields to every entry. Uses `logger.child`, if implemented.
+ */
+export function childLogger(logger: HTTPLogger, fields: Record<string, unknown>): HTTPLogger {
+    if (logger.child) return logger.child(fields);
+
+    return {
+        debug: (message, f) => logger.debug(message, { ...fields, ...f }),
+        info: (message, f) => logger.info(message, { ...fields, ...f }),
+        warn: (message, f) => logger.warn(message, { ...fields, ...f }),
+        error: (message, f) => logger.error(message, { ...fields, ...f }),
+        child: (f) => childLogger(logger, { ...fields, ...f }),
+    };
+}
+
+/**
+ * Parses the W3C `traceparent` header
+ * @returns The trace context or `undefined` if the header is invalid
+ */
+export function parseTraceparent(
+    traceparent: string | null | undefined,
+    tracestate?: string | null
+): HTTPTraceContext | undefined {
+    const match = TRACEPARENT.exec(traceparent?.trim().toLowerCase() ?? "");
+    if (!match) return undefined;
+
+    const [, version, traceId, parentId, flags, rest] = match;
+    // Version 00 has no further fields, version ff is invalid
+    if (version === "ff" || (version === "00" && rest)) return undefined;
+    if (/^0+$/.test(traceId) || /^0+$/.test(parentId)) return undefined;
+
+    return { traceId, parentId, flags: parseInt(flags, 16), ...(tracestate && { traceState: tracestate }) };
+}
+
+/**
+ * Identifies the request by the `X-Request-Id` header, the trace id of the `traceparent` header or a random UUID
+ */
+export function identifyRequest(request: HTTPNormalizedRequest): Pick<HTTPNormalizedRequest, "id" | "trace"> {
+    const trace = parseTraceparent(request.headers.get("traceparent"), request.headers.get("tracestate"));
+    const requestId = request.headers.get("X-Request-Id");
+
+    return {
+        id: requestId && REQUEST_ID.test(requestId) ? requestId : (trace?.traceId ?? crypto.randomUUID()),
+        trace,
+    };
+}
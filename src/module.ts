@@ -1,7 +1,38 @@
 import { App, FieldShadow, Instance, Module, ParamShadow, Shadow } from "../../njses";
 import { HTTP_FIELD, HTTP_ROLE } from "./const";
-import type { Handler, Parser, Refine, Send } from "./decorators";
-import { HTTPError } from "./errors";
+import type {
+    Catch,
+    ContentParser,
+    ContentSerializer,
+    Handler,
+    HTTPResponseInfo,
+    OnClose,
+    OnError,
+    OnHandlerMatched,
+    OnMessage,
+    OnOpen,
+    OnRequest,
+    OnResponse,
+    Parser,
+    Refine,
+    Send,
+    Use,
+} from "./decorators";
+import {
+    HTTPError,
+    HTTPForbiddenError,
+    HTTPGatewayTimeoutError,
+    HTTPInternalServerError,
+    HTTPMethodNotAllowedError,
+    HTTPNotAcceptableError,
+    HTTPNotFoundError,
+    HTTPPayloadTooLargeError,
+    HTTPServiceUnavailableError,
+    HTTPTooManyRequestsError,
+    HTTPUnauthorizedError,
+    HTTPUnsupportedMediaTypeError,
+    HTTPValidationError,
+} from "./errors";
 import type {
     HTTPRequest,
     HTTPResponse,
@@ -9,45 +40,134 @@ import type {
     HTTPCORSOptions,
     HTTPMatcherCheck,
     HTTPNormalizedResponse,
+    HTTPValidationIssue,
+    HTTPOpenAPIOptions,
+    HTTPRateLimitOptions,
+    HTTPRateLimitResult,
+    HTTPTimeoutOptions,
+    HTTPWebSocket,
+    HTTPWebSocketListener,
+    HTTPWebSocketUpgrade,
 } from "./types";
 import micromatch from "micromatch";
+import { HTTPRouter } from "./router";
+import { parseQuery, toValidationIssues, validateSchema } from "./validation";
+import {
+    applyCORSHeaders,
+    createPreflightResponse,
+    isCORSOriginAllowed,
+    isPreflightRequest,
+    mergeCORSOptions,
+} from "./cors";
+import {
+    cancelBody,
+    DEFAULT_BODY_LIMIT,
+    isRawBody,
+    isStreamBody,
+    matchesMediaType,
+    negotiateMediaType,
+    parseMediaType,
+    readRawBody,
+} from "./content";
+import { appendVary } from "./util";
+import { generateOpenAPIDocument, type OpenAPIDocument } from "./openapi";
+import { consumeRateLimit, setRateLimitHeaders } from "./ratelimit";
+import { formatCacheControl } from "./cache";
+import {
+    collectRoutes,
+    getServicePrefix,
+    parseVersionSegment,
+    selectRoute,
+    setDeprecationHeaders,
+    type HTTPRoute,
+} from "./routes";
+import { identifyRequest, SILENT_LOGGER } from "./logging";
+
+type IncomingState = {
+    request: HTTPNormalizedRequest;
+    /** `performance.now()` when the request was received */
+    start: number;
+    route?: HTTPRoute;
+    error?: unknown;
+};
+
+type HandleResult = {
+    request: HTTPNormalizedRequest;
+    response: HTTPNormalizedResponse;
+    handler?: FieldShadow;
+    route?: HTTPRoute;
+    /** The most restrictive rate limit of the handler */
+    rateLimit?: HTTPRateLimitResult;
+};
 
 type AssigneeCacheEntry = {
     service: Instance;
     matcher: HTTPMatcherCheck | null;
-    priotity?: number;
+    priority?: number;
 };
 
 @Module({ name: "$$http_module" })
 export class HTTPModule {
     private _sender: { service: Instance; method: string } | undefined;
+    private _routers = new Map<Instance, HTTPRouter<HTTPRoute>>();
+    private _webSocketRouter: HTTPRouter<Instance> | undefined;
 
     private _getSender(): { service: Instance; method: string } | null {
         if (this._sender) return this._sender;
-        for (const service of App.getAssignees(HTTP_ROLE.SERVICE)) {
+        for (const { service } of this.getAssignees()) {
             const m = Shadow.require(service).getMethod(HTTP_FIELD.SENDER);
             if (m) return (this._sender = { service, method: m });
         }
         return null;
     }
 
-    getAssignees(path: string): AssigneeCacheEntry[] {
+    /**
+     * @param path If given, only http services whose matcher matches the path are returned
+     * @returns The http services ordered by their `priority` (highest first). Services without priority have priority 0.
+     */
+    getAssignees(path?: string): AssigneeCacheEntry[] {
         return App.getAssignees(HTTP_ROLE.SERVICE)
             .map((service) => {
                 const shadow = Shadow.require(service);
                 if (!shadow) throw new Error("Service shadow not found");
                 return {
                     service,
-                    matcher: shadow.getCtx("$http_matcher") || null,
-                    priotity: shadow.getCtx("$http_options")?.priority,
+                    matcher: shadow.getCtx("$http_matcher") || this._getPrefixMatcher(service),
+                    priority: shadow.getCtx("$http_options")?.priority,
                 };
             })
-            .sort((a, b) => {
-                if (a.matcher === null && b.matcher !== null) return -1;
-                if (a.matcher !== null && b.matcher === null) return 1;
-                if (a.priotity === b.priotity) return 0;
-                return a.priotity! > b.priotity! ? -1 : 1;
-            });
+            .filter((assignee) => path === undefined || this.matches(path, assignee.matcher))
+            .sort((a, b) => (b.priority ?? 0) - (a.priority ?? 0));
+    }
+
+    /**
+     * Services with a prefix or mounted by other services only match paths below their prefix,
+     * with or without version segment
+     */
+    private _getPrefixMatcher(service: Instance): HTTPMatcherCheck | null {
+        const shadow = Shadow.require(service);
+        if (!shadow.getCtx("$http_options")?.prefix && !shadow.getCtx("$http_parent")) return null;
+
+        const prefix = getServicePrefix(service.constructor);
+        if (prefix === "/") return null;
+
+        const below = (path: string) => path === prefix || path.startsWith(prefix + "/");
+        return (path) => below(path) || below(parseVersionSegment(path)?.path ?? path);
+    }
+
+    /**
+     * Builds the route tree of the handler service from its `@Handler` fields and the handlers of the services
+     * it mounts (see `HttpServiceOptions.mount`)
+     */
+    getRouter(handlerService: Instance): HTTPRouter<HTTPRoute> {
+        let router = this._routers.get(handlerService);
+        if (router) return router;
+
+        router = new HTTPRouter();
+        for (const route of collectRoutes(handlerService)) router.add(route.path, route);
+        this._routers.set(handlerService, router);
+
+        return router;
     }
 
     matches(path: string, matcher: HTTPMatcherCheck | null | undefined): boolean {
@@ -67,194 +187,1058 @@ export class HTTPModule {
             cookies: {},
             method: "",
             path: "",
+            params: {},
         };
     }
 
     /**
-     * Creates a response and sends it
+     * Creates a response and sends it. The request passes these phases:
+     *
+     * 1. **receive**: The `@Receive` methods of all http services create the normalized request
+     * 2. **parse**: The parsers (`@Middleware`, `@BodyParser`, `@CookieParser`, ...) transform the request
+     * 3. CORS preflight requests are answered
+     * 4. **auth**: The `@SessionProvider` and `@Authenticator` methods authenticate the request
+     * 5. **handle**: The handler is matched, the body parsed by the content parsers, the parameters injected
+     *    and the response body serialized by the content serializers. The `@Use` middlewares wrap this phase
+     * 6. **refine**: The `@Refine` methods transform the response. Then CORS headers are applied
+     * 7. **send**: The `@Send` method creates the platform response
+     *
+     * Before the parse phase the request is identified (see `HTTPNormalizedRequest.id`). The response carries
+     * the id in the `X-Request-Id` header. The lifecycle hooks (`@OnRequest`, `@OnHandlerMatched`, `@OnError`
+     * and `@OnResponse`) observe the phases.
+     *
+     * From the parse phase on, only http services and methods whose matcher matches the request path take part.
+     * Within a phase, http services run in order of their `priority` (highest first)
+     * and their methods in order of declaration. Asynchronous methods are awaited.
+     * Errors of any phase are transformed (see `transformError`) and sent.
+     *
+     * Handlers of several API versions (see `HttpServiceOptions.version`) may share a path. The version is requested
+     * by a leading path segment (`/v2/users`), unless a handler matches the full path, or the `Accept-Version` header.
+     * If no handler of the version exists, the handler of the next older version responds.
+     * Without requested version the latest handler responds.
      */
     async incoming(handlerService: Instance, request: HTTPRequest): Promise<HTTPResponse> {
+        // Holds the latest normalized request, so errors can be sent with it
+        const state: IncomingState = { request: this._emptyRequest(request), start: performance.now() };
+        let response: HTTPNormalizedResponse;
+
+        try {
+            // -- receive
+
+            state.request = await this._runRequestPhase(
+                this.getAssignees(),
+                HTTP_FIELD.REQUEST_RECEIVE,
+                state.request
+            );
+
+            response = await this._process(handlerService, state);
+        } catch (err) {
+            response = await this._fail(handlerService, err, state);
+        }
+
+        response = await this._complete(state, response);
+
+        // -- send
+
+        try {
+            return await this.send(state.request, response);
+        } catch (err) {
+            response = await this._complete(state, await this._fail(handlerService, err, state));
+            return this.send(state.request, response);
+        }
+    }
+
+    /**
+     * Handles a WebSocket upgrade request. See `dispatchUpgrade`.
+     */
+    async upgrade(request: HTTPRequest): Promise<HTTPWebSocketUpgrade> {
+        let normalized = this._emptyRequest(request);
+
+        try {
+            normalized = await this._runRequestPhase(
+                this.getAssignees(),
+                HTTP_FIELD.REQUEST_RECEIVE,
+                normalized
+            );
+        } catch (err) {
+            const error = await this.transformError(err, normalized);
+            return { request: normalized, response: this.getErrorResponse(error, normalized) };
+        }
+
+        return await this.dispatchUpgrade(normalized);
+    }
+
+    /**
+     * Runs the parse and auth phases for an already normalized upgrade request and matches the `@WebSocket` service.
+     * Adapters complete the handshake and call `accept`, if the upgrade is accepted. Otherwise they send the response.
+     */
+    async dispatchUpgrade(request: HTTPNormalizedRequest): Promise<HTTPWebSocketUpgrade> {
+        const state: IncomingState = { request, start: performance.now() };
+
+        try {
+            const httpServices = this.getAssignees(state.request.path);
+
+            state.request = await this._runRequestPhase(
+                httpServices,
+                HTTP_FIELD.REQUEST_PARSER,
+                state.request
+            );
+            state.request = await this._runRequestPhase(httpServices, HTTP_FIELD.AUTH, state.request);
+
+            const match = this._getWebSocketRouter().match(state.request.path);
+            if (!match) throw new HTTPNotFoundError();
+
+            const service = match.value;
+            state.request = { ...state.request, params: match.params };
+
+            const corsOptions = await this._collectCorsOptions(
+                httpServices,
+                service,
+                undefined,
+                state.request
+            );
+            if (!this._isWebSocketOriginAllowed(state.request, corsOptions)) throw new HTTPForbiddenError();
+
+            await this._authorize(service, httpServices, undefined, state.request);
+
+            return {
+                request: state.request,
+                accept: (socket) => this._acceptWebSocket(service, socket),
+            };
+        } catch (err) {
+            const error = await this.transformError(err, state.request);
+            return { request: state.request, response: this.getErrorResponse(error, state.request) };
+        }
+    }
+
+    private _getWebSocketRouter(): HTTPRouter<Instance> {
+        if (this._webSocketRouter) return this._webSocketRouter;
+
+        const router = new HTTPRouter<Instance>();
+        for (const { service } of this.getAssignees()) {
+            const path = Shadow.require(service).getCtx("$http_websocket");
+            if (path !== undefined) router.add(path, service);
+        }
+
+        return (this._webSocketRouter = router);
+    }
+
+    /**
+     * Browsers do not apply CORS to WebSockets, so the `Origin` is checked here.
+     * Without CORS options only same origin requests and requests without `Origin` (non-browser clients) are allowed.
+     */
+    private _isWebSocketOriginAllowed(
+        request: HTTPNormalizedRequest,
+        corsOptions: HTTPCORSOptions | undefined
+    ): boolean {
+        const origin = request.headers.get("Origin");
+        if (!origin) return true;
+        if (corsOptions) return isCORSOriginAllowed(origin, corsOptions);
+
+        try {
+            return new URL(origin).host === request.headers.get("Host");
+        } catch {
+            return false;
+        }
+    }
+
+    private async _acceptWebSocket(service: Instance, socket: HTTPWebSocket): Promise<HTTPWebSocketListener> {
+        const shadow = Shadow.require(service);
+
+        for (const method of shadow.getMethods(HTTP_FIELD.WEBSOCKET_OPEN)) {
+            await App.invoke<OnOpen>(service, method, socket);
+        }
+
+        return {
+            message: async (message) => {
+                try {
+                    for (const method of shadow.getMethods(HTTP_FIELD.WEBSOCKET_MESSAGE)) {
+                        await App.invoke<OnMessage>(service, method, socket, message);
+                    }
+                } catch (err) {
+                    socket.close(1011, "Internal Error");
+                }
+            },
+            close: async (code, reason) => {
+                try {
+                    for (const method of shadow.getMethods(HTTP_FIELD.WEBSOCKET_CLOSE)) {
+                        await App.invoke<OnClose>(service, method, socket, code, reason);
+                    }
+                } catch (err) {
+                    // The connection is closed already
+                }
+            },
+        };
+    }
+
+    /**
+     * Runs the phases between receive and send (see `incoming`) for an already normalized request.
+     * Errors are transformed to error responses.
+     * @returns The final request and the response, that would be sent
+     */
+    async dispatch(
+        handlerService: Instance,
+        request: HTTPNormalizedRequest
+    ): Promise<{ request: HTTPNormalizedRequest; response: HTTPNormalizedResponse }> {
+        const state: IncomingState = { request, start: performance.now() };
+        let response: HTTPNormalizedResponse;
+
         try {
-            return await this._incoming(handlerService, request);
+            response = await this._process(handlerService, state);
         } catch (err) {
-            if (err instanceof HTTPError) return this.send(this._emptyRequest(request), err.response);
-            else throw err;
+            response = await this._fail(handlerService, err, state);
         }
+
+        return { request: state.request, response: await this._complete(state, response) };
     }
 
-    private async _incoming(handlerService: Instance, request: HTTPRequest): Promise<HTTPResponse> {
-        const handlerShadow = Shadow.require(handlerService);
+    /**
+     * Invokes the `@OnError` hooks and transforms the error
+     * @returns The error response with the CORS headers of the matched handler
+     */
+    private async _fail(
+        handlerService: Instance,
+        err: unknown,
+        state: IncomingState
+    ): Promise<HTTPNormalizedResponse> {
+        state.error = err;
+        this._identify(state);
+        await this._runHooks<OnError>(
+            this.getAssignees(state.request.path),
+            HTTP_FIELD.ON_ERROR,
+            state.request,
+            [err, state.request]
+        );
+
+        const error = await this.transformError(err, state.request);
+        const response = this.getErrorResponse(error, state.request);
 
-        // -- parse request and get sender
+        // Without CORS headers browsers hide the error from the client.
+        // Failing CORS resolvers are ignored here.
+        const corsOptions = await this._collectCorsOptions(
+            this.getAssignees(state.request.path),
+            state.route?.service ?? handlerService,
+            state.route?.field,
+            state.request
+        ).catch(() => undefined);
 
-        // inital request
-        let normalizedRequest: HTTPNormalizedRequest = this._emptyRequest(request);
-        // The path should get set eventually by a http service that has no matcher
-        let path: string | undefined;
-        const usedAssignees: AssigneeCacheEntry[] = [];
+        return corsOptions ? applyCORSHeaders(state.request, response, corsOptions) : response;
+    }
 
-        for (const assignee of App.getAssignees(HTTP_ROLE.SERVICE)) {
-            // continue if path does not match and not initialized
-            if (path != null && !this.matches(path, assignee.matcher)) continue;
+    /**
+     * Sets the `X-Request-Id` header and invokes the `@OnResponse` hooks
+     */
+    private async _complete(
+        state: IncomingState,
+        response: HTTPNormalizedResponse
+    ): Promise<HTTPNormalizedResponse> {
+        this._identify(state);
+
+        const headers = new Headers(response.headers);
+        if (!headers.has("X-Request-Id")) headers.set("X-Request-Id", state.request.id!);
+        response = { ...response, headers };
+
+        const info: HTTPResponseInfo = {
+            duration: performance.now() - state.start,
+            route: state.route,
+            error: state.error,
+        };
+        await this._runHooks<OnResponse>(
+            this.getAssignees(state.request.path),
+            HTTP_FIELD.ON_RESPONSE,
+            state.request,
+            [state.request, response, info]
+        );
 
-            const assigneeShadow = Shadow.require(assignee.service);
-            usedAssignees.push(assignee);
+        return response;
+    }
 
-            const methods = [
-                // receive before parser
-                ...assigneeShadow.getMethods(HTTP_FIELD.REQUEST_RECEIVE),
-                ...assigneeShadow.getMethods(HTTP_FIELD.REQUEST_PARSER),
-            ];
+    /**
+     * Sets the id and trace context of the request, unless it is identified already (e.g. when dispatched)
+     */
+    private _identify(state: IncomingState) {
+        if (!state.request.id) state.request = { ...state.request, ...identifyRequest(state.request) };
+    }
 
-            for (const method of methods) {
-                const p = assigneeShadow.getField(method);
+    /**
+     * Invokes the lifecycle hooks of the given field. Hooks only observe, so their errors are ignored.
+     */
+    private async _runHooks<H extends (...args: any[]) => any>(
+        httpServices: AssigneeCacheEntry[],
+        field: HTTP_FIELD,
+        request: HTTPNormalizedRequest,
+        args: Parameters<H>
+    ): Promise<void> {
+        for (const httpService of httpServices) {
+            const shadow = Shadow.require(httpService.service);
 
-                // continue if path does not match
-                if (path != null && !this.matches(normalizedRequest.path, p?.$http_matcher)) continue;
+            for (const method of shadow.getMethods(field)) {
+                if (!this.matches(request.path, shadow.getField(method)?.$http_matcher)) continue;
 
-                const newReq = App.invoke<Parser>(assignee.service, method, normalizedRequest);
-                if (newReq) {
-                    // set path, when first set
-                    // BUG this could include services where the matcher does not match. For now ew can use priotity to sort them
-                    if (newReq.path !== undefined) path = newReq.path;
-                    normalizedRequest = { ...normalizedRequest, ...newReq };
+                try {
+                    await App.invoke<H>(httpService.service, method, ...args);
+                } catch {
+                    // Ignored
                 }
             }
         }
+    }
 
-        // -- get inital response
+    private async _process(handlerService: Instance, state: IncomingState): Promise<HTTPNormalizedResponse> {
+        // -- parse
 
-        let handlerProp: FieldShadow | undefined;
+        // The path is known now
+        const httpServices = this.getAssignees(state.request.path);
 
-        for (const prop of handlerShadow.getFields()) {
-            if (
-                prop.$http_method === normalizedRequest.method &&
-                prop.$http_path === normalizedRequest.path
-            ) {
-                handlerProp = prop;
-                break;
+        this._identify(state);
+        await this._runHooks<OnRequest>(httpServices, HTTP_FIELD.ON_REQUEST, state.request, [state.request]);
+
+        state.request = await this._runRequestPhase(httpServices, HTTP_FIELD.REQUEST_PARSER, state.request);
+
+        // -- answer CORS preflight requests
+
+        if (isPreflightRequest(state.request)) {
+            const preflightResponse = await this._preflight(handlerService, httpServices, state.request);
+            if (preflightResponse) return preflightResponse;
+        }
+
+        // -- auth
+
+        state.request = await this._runRequestPhase(httpServices, HTTP_FIELD.AUTH, state.request);
+
+        // -- handle
+
+        let handled: HandleResult | undefined;
+
+        let response = await this._runAroundMiddlewares(httpServices, state.request, async (request) => {
+            handled = await this._handle(handlerService, httpServices, request, state);
+            state.request = handled.request;
+            return await this._serializeContent(httpServices, handled.request, handled.response);
+        });
+
+        const request = state.request;
+
+        // The handler may be declared by a mounted service
+        const service = handled?.route?.service ?? handlerService;
+
+        const cache = handled?.handler?.$http_cache ?? Shadow.require(service).getCtx("$http_cache");
+        if (cache && (response.status ?? 200) < 400 && !response.headers?.has("Cache-Control")) {
+            const headers = new Headers(response.headers);
+            headers.set("Cache-Control", formatCacheControl(cache));
+            response = { ...response, headers };
+        }
+
+        if (handled?.route?.deprecated) {
+            const headers = new Headers(response.headers);
+            setDeprecationHeaders(headers, handled.route.deprecated);
+            response = { ...response, headers };
+        }
+
+        // -- refine
+
+        for (const httpService of httpServices) {
+            const shadow = Shadow.require(httpService.service);
+
+            for (const ref of shadow.getMethods(HTTP_FIELD.RESPONSE_REFINER)) {
+                if (!this.matches(request.path, shadow.getField(ref)?.$http_matcher)) continue;
+                response = await App.invoke<Refine>(httpService.service, ref, request, response);
             }
         }
 
-        if (!handlerProp)
-            throw new Error(
-                `No handler found for request "${normalizedRequest.method} ${normalizedRequest.path}"`
+        if (handled?.rateLimit) {
+            const headers = new Headers(response.headers);
+            setRateLimitHeaders(headers, handled.rateLimit);
+            response = { ...response, headers };
+        }
+
+        const corsOptions = await this._collectCorsOptions(httpServices, service, handled?.handler, request);
+        if (corsOptions) response = applyCORSHeaders(request, response, corsOptions);
+
+        // HEAD responses never have a body
+        if (request.method === "HEAD") {
+            await cancelBody(response.body);
+            response = { ...response, body: undefined };
+        }
+
+        return response;
+    }
+
+    /**
+     * Composes the `@Use` middlewares around the handle phase. The first middleware is the outermost.
+     */
+    private async _runAroundMiddlewares(
+        httpServices: AssigneeCacheEntry[],
+        request: HTTPNormalizedRequest,
+        handle: (request: HTTPNormalizedRequest) => Promise<HTTPNormalizedResponse>
+    ): Promise<HTTPNormalizedResponse> {
+        const middlewares: { service: Instance; method: string }[] = [];
+
+        for (const httpService of httpServices) {
+            const shadow = Shadow.require(httpService.service);
+            for (const method of shadow.getMethods(HTTP_FIELD.AROUND_MIDDLEWARE)) {
+                if (!this.matches(request.path, shadow.getField(method)?.$http_matcher)) continue;
+                middlewares.push({ service: httpService.service, method });
+            }
+        }
+
+        const dispatch = async (
+            index: number,
+            request: HTTPNormalizedRequest
+        ): Promise<HTTPNormalizedResponse> => {
+            if (index === middlewares.length) return await handle(request);
+            const { service, method } = middlewares[index];
+            return await App.invoke<Use>(service, method, request, (next = request) =>
+                dispatch(index + 1, next)
             );
+        };
+
+        return await dispatch(0, request);
+    }
+
+    /**
+     * Invokes the request transforming methods of the given field and merges their results into the request.
+     * Receivers are invoked regardless of method matchers, as the path is not known before.
+     */
+    private async _runRequestPhase(
+        httpServices: AssigneeCacheEntry[],
+        field: HTTP_FIELD,
+        request: HTTPNormalizedRequest
+    ): Promise<HTTPNormalizedRequest> {
+        for (const httpService of httpServices) {
+            const shadow = Shadow.require(httpService.service);
+
+            for (const method of shadow.getMethods(field)) {
+                const p = shadow.getField(method);
+                if (field !== HTTP_FIELD.REQUEST_RECEIVE && !this.matches(request.path, p?.$http_matcher))
+                    continue;
+
+                const result = await App.invoke<Parser>(httpService.service, method, request);
+                if (result) request = { ...request, ...result };
+            }
+        }
+
+        return request;
+    }
+
+    /**
+     * Maps any error to a `HTTPError` using the `@Catch` transformers of the http services matching the request path.
+     * Unhandled errors, that are not `HTTPError`s, become a `HTTPInternalServerError`.
+     * Errors of the transformers become a `HTTPInternalServerError` as well.
+     */
+    async transformError(err: unknown, request: HTTPNormalizedRequest): Promise<HTTPError> {
+        for (const assignee of this.getAssignees(request.path)) {
+            const shadow = Shadow.require(assignee.service);
+
+            for (const method of shadow.getMethods(HTTP_FIELD.ERROR_TRANSFORMER)) {
+                const field = shadow.getField(method);
+                const errorClass = field?.$http_catch;
+
+                // Transformers without an error class only catch unexpected errors
+                if (errorClass ? !(err instanceof errorClass) : err instanceof HTTPError) continue;
+                if (!this.matches(request.path, field?.$http_matcher)) continue;
+
+                let result: Awaited<ReturnType<Catch>>;
+                try {
+                    result = await App.invoke<Catch>(assignee.service, method, err, request);
+                } catch (transformerErr) {
+                    return new HTTPInternalServerError(undefined, transformerErr);
+                }
+
+                if (result instanceof HTTPError) return result;
+                if (result) return new HTTPError(result, err);
+            }
+        }
+
+        if (err instanceof HTTPError) return err;
 
-        let normalizedResponse = await App.invoke<Handler>(
-            handlerService,
-            handlerProp.field as string,
-            // Set injecte arguments, such as @Body, @Search, @Headers, @Context, @Session
-            handlerShadow.mapArgs(
-                handlerProp.field,
-                [normalizedRequest],
-                (arg, param) => this._getParam(normalizedRequest, param?.$http_param_type) || arg
-            )[0]
+        const message = err instanceof Error ? err.message : String(err);
+        return new HTTPInternalServerError(
+            this._getErrorOptions(request.path).expose ? message : undefined,
+            err
         );
+    }
 
-        // -- refine response
+    /**
+     * @returns The response of the error. Problem details, if enabled by a http service matching the request path.
+     */
+    getErrorResponse(error: HTTPError, request: HTTPNormalizedRequest): HTTPNormalizedResponse {
+        if (!this._getErrorOptions(request.path).problemDetails) return error.response;
+        return error.toProblemResponse(request.path || undefined);
+    }
 
-        for (const httpService of usedAssignees) {
-            for (const ref of handlerShadow.getMethods(HTTP_FIELD.RESPONSE_REFINER)) {
-                const p = handlerShadow.getField(ref);
-                if (!this.matches(normalizedRequest.path, p?.$http_matcher)) continue;
+    private _getErrorOptions(path: string): { expose: boolean; problemDetails: boolean } {
+        let expose: boolean | undefined;
+        let problemDetails: boolean | undefined;
 
-                normalizedResponse = await App.invoke<Refine>(
-                    httpService.service,
-                    ref,
-                    normalizedRequest,
-                    normalizedResponse
-                );
+        for (const assignee of this.getAssignees(path)) {
+            const options = Shadow.require(assignee.service).getCtx("$http_options");
+            expose ??= options?.exposeErrors;
+            problemDetails ??= options?.problemDetails;
+        }
+
+        return {
+            expose: expose ?? (typeof process === "undefined" || process.env.NODE_ENV !== "production"),
+            problemDetails: problemDetails ?? false,
+        };
+    }
+
+    /**
+     * Invokes the matching handler. `HEAD` requests fall back to `GET` handlers and `OPTIONS` requests
+     * are answered with the allowed methods, if no explicit handler is registered.
+     * @throws `HTTPNotFoundError` if no handler is registered for the path
+     * @throws `HTTPMethodNotAllowedError` if no handler is registered for the method
+     * @throws `HTTPUnsupportedMediaTypeError` if no content parser accepts the request body
+     * @throws `HTTPUnauthorizedError` or `HTTPForbiddenError` if the request is not authorized for the handler
+     */
+    private async _handle(
+        handlerService: Instance,
+        httpServices: AssigneeCacheEntry[],
+        request: HTTPNormalizedRequest,
+        state: IncomingState
+    ): Promise<HandleResult> {
+        const { method, path } = request;
+
+        // Built-in OpenAPI document route
+        const openapi = this._getOpenAPIOptions(path);
+        if (openapi && (method === "GET" || method === "HEAD")) {
+            return {
+                request,
+                response: { status: 200, body: this.getOpenAPIDocument(handlerService, openapi) },
+            };
+        }
+
+        const routePath = this._resolveRoutePath(handlerService, request);
+        const match = this._matchHandler(handlerService, routePath.path, method, routePath.version);
+
+        if (!match) {
+            const allowed = this.getAllowedMethods(handlerService, routePath.path, routePath.version);
+            if (!allowed.length) throw new HTTPNotFoundError();
+            if (method !== "OPTIONS") throw new HTTPMethodNotAllowedError(allowed);
+            return {
+                request,
+                response: { status: 204, headers: new Headers({ Allow: allowed.join(", ") }) },
+            };
+        }
+
+        const route = match.value;
+        const handlerProp = route.field;
+        const routedRequest = { ...request, params: match.params };
+
+        state.route = route;
+        await this._runHooks<OnHandlerMatched>(httpServices, HTTP_FIELD.ON_HANDLER_MATCHED, routedRequest, [
+            routedRequest,
+            route,
+        ]);
+
+        // Limit and authorize before the body is read
+        const rateLimit = await this._rateLimit(route, httpServices, routedRequest);
+        await this._authorize(route.service, httpServices, handlerProp, routedRequest);
+
+        const timeout = handlerProp.$http_timeout ?? Shadow.require(route.service).getCtx("$http_timeout");
+
+        return await this._withTimeout(timeout, routedRequest, async (request) => {
+            const matchedRequest = await this._parseContent(httpServices, request);
+
+            const response = await App.invoke<Handler>(
+                route.service,
+                handlerProp.field as string,
+                // Set injecte arguments, such as @Body, @Query, @Headers, @Param, @Context, @Session
+                ...(await this._resolveArgs(route.service, handlerProp.field as string, matchedRequest))
+            );
+
+            return { request: matchedRequest, response, handler: handlerProp, route, rateLimit };
+        });
+    }
+
+    /**
+     * Runs `handle` with a signal, that is aborted when the timeout expires or the signal of the request is aborted.
+     * The handler is not awaited after the timeout.
+     * @throws `HTTPServiceUnavailableError` or `HTTPGatewayTimeoutError` if the timeout expires
+     */
+    private async _withTimeout<T>(
+        options: HTTPTimeoutOptions | undefined,
+        request: HTTPNormalizedRequest,
+        handle: (request: HTTPNormalizedRequest) => Promise<T>
+    ): Promise<T> {
+        if (!options) return await handle(request);
+
+        const controller = new AbortController();
+        const signal = request.signal
+            ? AbortSignal.any([request.signal, controller.signal])
+            : controller.signal;
+        let timer: ReturnType<typeof setTimeout> | undefined;
+
+        const timedOut = new Promise<never>((_, reject) => {
+            timer = setTimeout(() => {
+                const error =
+                    options.status === 504
+                        ? new HTTPGatewayTimeoutError()
+                        : new HTTPServiceUnavailableError();
+                controller.abort(error);
+                reject(error);
+            }, options.timeout);
+        });
+
+        try {
+            return await Promise.race([handle({ ...request, signal }), timedOut]);
+        } finally {
+            clearTimeout(timer);
+        }
+    }
+
+    /**
+     * Consumes the `@RateLimit`s of the http services, the handler service and the handler.
+     * Limits without `id` are scoped by the service name or the handler route.
+     * @returns The result with the fewest remaining requests
+     * @throws `HTTPTooManyRequestsError` if any limit is exceeded
+     */
+    private async _rateLimit(
+        route: HTTPRoute,
+        httpServices: AssigneeCacheEntry[],
+        request: HTTPNormalizedRequest
+    ): Promise<HTTPRateLimitResult | undefined> {
+        const limits: [options: HTTPRateLimitOptions | undefined, scope: string][] = [
+            ...httpServices.map(({ service }): [HTTPRateLimitOptions | undefined, string] => [
+                Shadow.require(service).getCtx("$http_rate_limit"),
+                service.constructor.name,
+            ]),
+            [Shadow.require(route.service).getCtx("$http_rate_limit"), route.service.constructor.name],
+            [
+                route.field.$http_rate_limit,
+                [route.method, route.version && `v${route.version}`, route.path].filter(Boolean).join(" "),
+            ],
+        ];
+        const consumed = new Set<HTTPRateLimitOptions>();
+        let restrictive: HTTPRateLimitResult | undefined;
+
+        // A service may be an http service and declare the handler
+        for (const [options, scope] of limits) {
+            if (!options || consumed.has(options)) continue;
+            consumed.add(options);
+
+            const result = await consumeRateLimit(request, options, options.id ?? scope);
+
+            if (!result.allowed) {
+                const error = new HTTPTooManyRequestsError(Math.ceil(result.reset / 1000));
+                setRateLimitHeaders(error.response.headers!, result);
+                throw error;
             }
+
+            if (!restrictive || result.remaining < restrictive.remaining) restrictive = result;
         }
 
-        // -- Set CORS headers
+        return restrictive;
+    }
 
-        const corsOptions = await this._collectCorsOptions(usedAssignees, normalizedRequest);
+    /**
+     * Checks the `@Authenticated`, `@Roles` and `@Guard` requirements of the http services, the handler service
+     * (or WebSocket service) and the handler, from least to most specific.
+     * @throws `HTTPUnauthorizedError` with the challenges of the authenticators, if the request is not authenticated
+     * @throws `HTTPForbiddenError` if the principal lacks the roles or a guard denies the request
+     */
+    private async _authorize(
+        handlerService: Instance,
+        httpServices: AssigneeCacheEntry[],
+        handler: FieldShadow | undefined,
+        request: HTTPNormalizedRequest
+    ): Promise<void> {
+        const requirements = [
+            ...httpServices.map((httpService) => Shadow.require(httpService.service).getCtx("$http_auth")),
+            Shadow.require(handlerService).getCtx("$http_auth"),
+            handler?.$http_auth,
+        ];
 
-        if (corsOptions) {
-            const headers = normalizedRequest.headers;
-            const origin = headers.get("Origin");
+        for (const requirement of requirements) {
+            if (!requirement) continue;
 
-            // We only set the headers if the origin is given
-            if (origin) {
-                headers.set("Access-Control-Allow-Origin", origin);
-                headers.set("Access-Control-Allow-Headers", corsOptions.allowHeaders?.join(",") ?? "");
-                headers.set("Access-Control-Allow-Methods", normalizedRequest.method);
-                headers.set("Access-Control-Expose-Headers", corsOptions.exposeHeaders?.join(",") ?? "");
-                headers.set("Access-Control-Max-Age", (corsOptions.maxAge || 600).toString());
-                headers.set(
-                    "Access-Control-Allow-Credentials",
-                    corsOptions.allowCredentials ? "true" : "false"
+            if (requirement.authenticated && !request.principal) {
+                throw new HTTPUnauthorizedError(
+                    undefined,
+                    undefined,
+                    this._getChallenges(httpServices, request)
                 );
             }
+
+            if (
+                requirement.roles &&
+                !requirement.roles.some((role) => request.principal?.roles?.includes(role))
+            ) {
+                throw new HTTPForbiddenError();
+            }
+
+            for (const guard of requirement.guards ?? []) {
+                if (await guard(request)) continue;
+                if (!request.principal) {
+                    throw new HTTPUnauthorizedError(
+                        undefined,
+                        undefined,
+                        this._getChallenges(httpServices, request)
+                    );
+                }
+                throw new HTTPForbiddenError();
+            }
+        }
+    }
+
+    private _getChallenges(httpServices: AssigneeCacheEntry[], request: HTTPNormalizedRequest): string[] {
+        const challenges: string[] = [];
+
+        for (const httpService of httpServices) {
+            const shadow = Shadow.require(httpService.service);
+            for (const method of shadow.getMethods(HTTP_FIELD.AUTH)) {
+                const field = shadow.getField(method);
+                if (!this.matches(request.path, field?.$http_matcher)) continue;
+                challenges.push(...(field?.$http_challenges ?? []));
+            }
+        }
+
+        return Array.from(new Set(challenges));
+    }
+
+    private _getContentMethods(httpServices: AssigneeCacheEntry[], field: HTTP_FIELD, path: string) {
+        const result: { service: Instance; method: string; mediaTypes: string[]; limit?: number }[] = [];
+
+        for (const httpService of httpServices) {
+            const shadow = Shadow.require(httpService.service);
+
+            for (const method of shadow.getMethods(field)) {
+                const p = shadow.getField(method);
+                if (!this.matches(path, p?.$http_matcher)) continue;
+
+                result.push({
+                    service: httpService.service,
+                    method,
+                    mediaTypes: p?.$http_media_types ?? [],
+                    limit: p?.$http_body_limit,
+                });
+            }
+        }
+
+        return result;
+    }
+
+    /**
+     * Parses raw bodies with the content parser matching the `Content-Type`.
+     * Bodies are left as they are, if no content parsers are registered.
+     */
+    private async _parseContent(
+        httpServices: AssigneeCacheEntry[],
+        request: HTTPNormalizedRequest
+    ): Promise<HTTPNormalizedRequest> {
+        if (!isRawBody(request.body)) return request;
+
+        const parsers = this._getContentMethods(httpServices, HTTP_FIELD.CONTENT_PARSER, request.path);
+        if (!parsers.length) return request;
+
+        const contentType = request.headers.get("Content-Type");
+        const mediaType = parseMediaType(contentType ?? "application/octet-stream");
+        const parser = parsers.find((p) => p.mediaTypes.some((t) => matchesMediaType(mediaType, t)));
+        if (!parser) {
+            // Requests without body, e.g. `DELETE`, usually have no `Content-Type`, but an empty body stream
+            if (contentType || (await readRawBody(request.body, DEFAULT_BODY_LIMIT)).byteLength)
+                throw new HTTPUnsupportedMediaTypeError();
+            return { ...request, body: undefined };
         }
 
-        // -- create sendable response
+        const limit = parser.limit ?? DEFAULT_BODY_LIMIT;
+        if (Number(request.headers.get("Content-Length") ?? 0) > limit) throw new HTTPPayloadTooLargeError();
+
+        const bytes = await readRawBody(request.body, limit);
+        if (!bytes.byteLength) return { ...request, body: undefined };
 
-        return await this.send(normalizedRequest, normalizedResponse);
+        return {
+            ...request,
+            body: await App.invoke<ContentParser>(parser.service, parser.method, bytes, request),
+        };
+    }
+
+    /**
+     * Serializes the response body with the content serializer preferred by the `Accept` header.
+     * If the response has a `Content-Type`, only serializers of that type are considered.
+     * @throws `HTTPNotAcceptableError` if no content serializer is acceptable
+     */
+    private async _serializeContent(
+        httpServices: AssigneeCacheEntry[],
+        request: HTTPNormalizedRequest,
+        response: HTTPNormalizedResponse
+    ): Promise<HTTPNormalizedResponse> {
+        const body = response.body;
+        if (body === undefined || body === null || isRawBody(body) || isStreamBody(body)) return response;
+
+        const serializers = this._getContentMethods(
+            httpServices,
+            HTTP_FIELD.CONTENT_SERIALIZER,
+            request.path
+        );
+        if (!serializers.length) return response;
+
+        const headers = new Headers(response.headers);
+        const contentType = headers.get("Content-Type");
+
+        if (contentType) {
+            const mediaType = parseMediaType(contentType);
+            const serializer = serializers.find((s) =>
+                s.mediaTypes.some((t) => matchesMediaType(mediaType, t))
+            );
+            if (!serializer) return response;
+
+            return {
+                ...response,
+                body: await App.invoke<ContentSerializer>(
+                    serializer.service,
+                    serializer.method,
+                    body,
+                    request,
+                    response
+                ),
+            };
+        }
+
+        const offers = serializers.flatMap((s) => s.mediaTypes);
+        const selected = negotiateMediaType(request.headers.get("Accept"), offers);
+        if (!selected) throw new HTTPNotAcceptableError();
+
+        const serializer = serializers.find((s) => s.mediaTypes.includes(selected))!;
+        headers.set("Content-Type", selected);
+        appendVary(headers, "Accept");
+
+        return {
+            ...response,
+            headers,
+            body: await App.invoke<ContentSerializer>(
+                serializer.service,
+                serializer.method,
+                body,
+                request,
+                response
+            ),
+        };
+    }
+
+    /**
+     * Strips the version segment from the path, if no handler matches the full path.
+     * @returns The path to route and the requested version
+     */
+    private _resolveRoutePath(
+        handlerService: Instance,
+        request: HTTPNormalizedRequest
+    ): { path: string; version?: string } {
+        const version = request.headers.get("Accept-Version")?.trim() || undefined;
+        const segment = parseVersionSegment(request.path);
+        if (!segment) return { path: request.path, version };
+
+        const router = this.getRouter(handlerService);
+        if (router.match(request.path) || !router.match(segment.path)) return { path: request.path, version };
+
+        return segment;
+    }
+
+    private _matchHandler(handlerService: Instance, path: string, method: string, version?: string) {
+        const matches = this.getRouter(handlerService).matchAll(path);
+        const match = selectRoute(
+            matches.filter((m) => m.value.method === method),
+            version
+        );
+        if (!match && method === "HEAD")
+            return selectRoute(
+                matches.filter((m) => m.value.method === "GET"),
+                version
+            );
+        return match;
+    }
+
+    /**
+     * @returns The preflight response or `null` if no CORS options apply
+     * @throws `HTTPNotFoundError` if no handler is registered for the path
+     */
+    private async _preflight(
+        handlerService: Instance,
+        httpServices: AssigneeCacheEntry[],
+        request: HTTPNormalizedRequest
+    ): Promise<HTTPNormalizedResponse | null> {
+        const routePath = this._resolveRoutePath(handlerService, request);
+        const allowed = this.getAllowedMethods(handlerService, routePath.path, routePath.version);
+        if (!allowed.length) throw new HTTPNotFoundError();
+
+        const requestedMethod = request.headers.get("Access-Control-Request-Method")!;
+        const match = this._matchHandler(handlerService, routePath.path, requestedMethod, routePath.version);
+        const corsOptions = await this._collectCorsOptions(
+            httpServices,
+            match?.value.service ?? handlerService,
+            match?.value.field,
+            { ...request, params: match?.params ?? {} }
+        );
+
+        if (!corsOptions) return null;
+
+        return createPreflightResponse(request, corsOptions, allowed);
+    }
+
+    /**
+     * Generates the OpenAPI 3.1 document of the handler service
+     */
+    getOpenAPIDocument(handlerService: Instance, options: HTTPOpenAPIOptions): OpenAPIDocument {
+        return generateOpenAPIDocument(handlerService, options);
+    }
+
+    /**
+     * @returns The options of the OpenAPI document served at the path (see `HttpServiceOptions.openapi`)
+     */
+    private _getOpenAPIOptions(path: string): HTTPOpenAPIOptions | undefined {
+        return this.getAssignees(path)
+            .map(({ service }) => Shadow.require(service).getCtx("$http_options")?.openapi)
+            .find((options) => options?.path === path);
+    }
+
+    /**
+     * @param version Only methods with a handler serving the version are allowed (see `selectRoute`)
+     * @returns The methods registered for the path, including the implicit `HEAD` and `OPTIONS`
+     * and the `GET` of the OpenAPI document route. An empty array if no handler matches the path.
+     */
+    getAllowedMethods(handlerService: Instance, path: string, version?: string): string[] {
+        const matches = this.getRouter(handlerService).matchAll(path);
+        const methods = new Set<string>();
+
+        for (const { value } of matches) {
+            if (methods.has(value.method)) continue;
+            if (
+                selectRoute(
+                    matches.filter((m) => m.value.method === value.method),
+                    version
+                )
+            )
+                methods.add(value.method);
+        }
+
+        if (this._getOpenAPIOptions(path)) methods.add("GET");
+
+        if (!methods.size) return [];
+        if (methods.has("GET")) methods.add("HEAD");
+        methods.add("OPTIONS");
+
+        return Array.from(methods);
     }
 
     async send(request: HTTPNormalizedRequest, response: HTTPNormalizedResponse) {
-        if (!this._sender) throw new Error("No sender found");
-        return await App.invoke<Send>(this._sender.service, this._sender.method, request, response);
+        const sender = this._getSender();
+        if (!sender) throw new Error("No sender found");
+        return await App.invoke<Send>(sender.service, sender.method, request, response);
+    }
+
+    /**
+     * The handler receives the request as first argument, unless it is replaced by an injected parameter.
+     */
+    private _defaultArgs(handlerService: Instance, field: string, request: HTTPNormalizedRequest): any[] {
+        const method = (handlerService as Record<string, unknown>)[field];
+        const arity = typeof method === "function" ? method.length : 1;
+        return Array.from({ length: Math.max(arity, 1) }, (_, i) => (i === 0 ? request : undefined));
     }
 
-    private _getParam(request: HTTPNormalizedRequest, type: ParamShadow["$http_param_type"]) {
-        switch (type) {
+    /**
+     * Maps the handler arguments to the injected parameters and validates them against their schemas.
+     * @throws `HTTPValidationError` listing the issues of all invalid parameters
+     */
+    private async _resolveArgs(
+        handlerService: Instance,
+        field: string,
+        request: HTTPNormalizedRequest
+    ): Promise<any[]> {
+        const issues: HTTPValidationIssue[] = [];
+
+        const args = await Promise.all(
+            Shadow.require(handlerService).mapArgs(
+                field,
+                this._defaultArgs(handlerService, field, request),
+                async (arg, param) => {
+                    // Decorated parameters are injected even if undefined, others keep the default argument
+                    const value = param ? this._getParam(request, param) : arg;
+                    if (!param?.$http_schema) return value;
+
+                    const result = await validateSchema(param.$http_schema, value);
+                    if (!result.issues) return result.value;
+
+                    const source = (
+                        param.$http_param_type === "param" ? "params" : param.$http_param_type
+                    ) as HTTPValidationIssue["source"];
+                    issues.push(...toValidationIssues(source, result.issues, param.$http_param_name));
+                    return value;
+                }
+            )
+        );
+
+        if (issues.length) throw new HTTPValidationError(issues);
+
+        return args;
+    }
+
+    private _getParam(request: HTTPNormalizedRequest, param: ParamShadow | undefined) {
+        switch (param?.$http_param_type) {
             case "body":
                 return request.body;
             case "req":
                 return request.originalRequest;
             case "search_params":
                 return request.searchParams;
+            case "query":
+                return parseQuery(request.searchParams, param.$http_coerce);
             case "headers":
                 return request.headers;
             case "context":
                 return request.context;
             case "session":
                 return request.session;
+            case "principal":
+                return request.principal;
+            case "last_event_id":
+                return request.headers.get("Last-Event-ID") ?? undefined;
+            case "logger":
+                return request.logger ?? SILENT_LOGGER;
+            case "signal":
+                return request.signal ?? new AbortController().signal;
             case "cookie":
                 return request.cookies;
+            case "param":
+                return param.$http_param_name ? request.params[param.$http_param_name] : request.params;
         }
     }
 
     /**
+     * Merges the CORS options from least to most specific: http services, the handler service and the handler.
      * @param httpServices The services to collect the CORS options from. These should match the request path already!
+     * @param handler The matched handler
      */
     private async _collectCorsOptions(
         httpServices: AssigneeCacheEntry[],
+        handlerService: Instance,
+        handler: FieldShadow | undefined,
         request: HTTPNormalizedRequest
     ): Promise<HTTPCORSOptions | undefined> {
-        let cors: HTTPCORSOptions | undefined;
-
-        const mergeCors = (o1: HTTPCORSOptions, o2: HTTPCORSOptions) => {
-            let result = o1;
-            for (const key in o2) {
-                if ((o2 as any)[key] !== undefined) (result as any)[key] = (o2 as any)[key];
-            }
-            return result;
-        };
+        const options: (HTTPCORSOptions | undefined)[] = [];
 
         for (const httpService of httpServices) {
             const shadow = Shadow.require(httpService.service);
-            const corsOptions = shadow.getCtx("$http_cors");
-
-            if (corsOptions) cors = mergeCors(cors || {}, corsOptions);
+            options.push(shadow.getCtx("$http_cors"));
 
             for (const corsField of shadow.getProps(HTTP_FIELD.CORS)) {
                 const field = shadow.getField(corsField);
 
+                // handler options only apply to their handler
+                if (field?.$http_method) continue;
                 // apply matcher
                 if (!this.matches(request.path, field?.$http_matcher)) continue;
 
-                cors = mergeCors(
-                    cors || {},
-                    (await App.resolve<HTTPCORSOptions>(httpService.service, corsField, request)) || {}
+                options.push(
+                    field?.$http_cors ??
+                        (await App.resolve<HTTPCORSOptions>(httpService.service, corsField, request))
                 );
             }
         }
 
-        return cors;
+        if (!httpServices.some((httpService) => httpService.service === handlerService)) {
+            options.push(Shadow.require(handlerService).getCtx("$http_cors"));
+        }
+        options.push(handler?.$http_cors);
+
+        return mergeCORSOptions(...options);
     }
 }
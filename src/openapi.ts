@@ -0,0 +1,183 @@
+import { Instance, ParamShadow, Shadow } from "../../njses";
+import { expandRoutePattern } from "./router";
+import { collectRoutes, selectRoute, type HTTPRoute } from "./routes";
+import type { HTTPJSONSchema, HTTPOpenAPIOptions, HTTPSchema } from "./types";
+import { isSchema } from "./validation";
+
+export type OpenAPIDocument = {
+    openapi: "3.1.0";
+    info: HTTPOpenAPIOptions["info"];
+    servers?: HTTPOpenAPIOptions["servers"];
+    paths: Record<string, Record<string, HTTPJSONSchema>>;
+    components?: { securitySchemes?: Record<string, HTTPJSONSchema> };
+};
+
+/** The optional JSON Schema converters of validation libraries */
+type JSONSchemaConvertible = {
+    "~standard": { jsonSchema?: { input?: (options: { target: string }) => HTTPJSONSchema } };
+    toJSONSchema?: () => HTTPJSONSchema;
+};
+
+function defaultToJSONSchema(schema: HTTPSchema): HTTPJSONSchema | undefined {
+    const convertible = schema as HTTPSchema & JSONSchemaConvertible;
+    const standard = convertible["~standard"];
+    // Standard JSON Schema
+    if (typeof standard.jsonSchema?.input === "function")
+        return standard.jsonSchema.input({ target: "draft-2020-12" });
+    if (typeof convertible.toJSONSchema === "function") return convertible.toJSONSchema();
+    return undefined;
+}
+
+function toJSONSchema(
+    schema: HTTPSchema | HTTPJSONSchema | undefined,
+    options: HTTPOpenAPIOptions
+): HTTPJSONSchema | undefined {
+    if (!schema) return undefined;
+    if (!isSchema(schema)) return schema;
+    return options.toJSONSchema?.(schema) ?? defaultToJSONSchema(schema);
+}
+
+/**
+ * `/users/:id` -> `/users/{id}`, `/files/*rest` -> `/files/{rest}`
+ */
+function toOpenAPIPath(pattern: string): { path: string; params: string[] } {
+    const params: string[] = [];
+    const path = pattern.replace(/\/([:*])([^/]*)/g, (_, type: string, name: string) => {
+        name = name || type;
+        params.push(name);
+        return `/{${name}}`;
+    });
+    return { path, params };
+}
+
+/**
+ * Collects the parameter shadows of the handler using the njses argument mapping
+ */
+function getParamShadows(handlerService: Instance, field: string): ParamShadow[] {
+    const params: ParamShadow[] = [];
+    const method = (handlerService as Record<string, unknown>)[field];
+    const arity = typeof method === "function" ? method.length : 0;
+
+    Shadow.require(handlerService).mapArgs(field, Array(Math.max(arity, 1)).fill(undefined), (arg, param) => {
+        if (param) params.push(param);
+        return arg;
+    });
+
+    return params;
+}
+
+/**
+ * @returns The routes of the version (or the latest routes), one per path and method
+ */
+function getVersionRoutes(handlerService: Instance, version: string | undefined): HTTPRoute[] {
+    const groups = new Map<string, HTTPRoute[]>();
+    for (const route of collectRoutes(handlerService)) {
+        const key = `${route.method} ${route.path}`;
+        groups.set(key, [...(groups.get(key) ?? []), route]);
+    }
+
+    return [...groups.values()].flatMap((routes) => {
+        const match = selectRoute(
+            routes.map((route) => ({ value: route, pattern: route.path, params: {} })),
+            version
+        );
+        return match ? [match.value] : [];
+    });
+}
+
+/**
+ * Generates the OpenAPI 3.1 document from the `@Handler` methods of the handler service and the services
+ * it mounts, their parameter decorators and schemas, and the `@Summary`, `@Tags`, `@Responds`, `@Security`
+ * and `@Deprecated` decorators.
+ */
+export function generateOpenAPIDocument(
+    handlerService: Instance,
+    options: HTTPOpenAPIOptions
+): OpenAPIDocument {
+    const paths: OpenAPIDocument["paths"] = {};
+
+    for (const route of getVersionRoutes(handlerService, options.version)) {
+        const prop = route.field;
+        const shadow = Shadow.require(route.service);
+        const serviceTags = shadow.getCtx("$http_tags") ?? [];
+        const serviceSecurity = shadow.getCtx("$http_security");
+
+        const field = prop.field as string;
+        const params = getParamShadows(route.service, field);
+        const tags = [...serviceTags, ...(prop.$http_tags ?? [])];
+        const security = prop.$http_security ?? serviceSecurity;
+
+        const allParamsSchema = toJSONSchema(
+            params.find((p) => p.$http_param_type === "param" && !p.$http_param_name)?.$http_schema,
+            options
+        );
+        const querySchema = toJSONSchema(
+            params.find((p) => p.$http_param_type === "query")?.$http_schema,
+            options
+        );
+        const bodyParam = params.find((p) => p.$http_param_type === "body");
+
+        const responses: Record<string, HTTPJSONSchema> = {};
+        for (const response of prop.$http_responses ?? [{ status: 200, description: "OK" }]) {
+            const schema = toJSONSchema(response.schema, options);
+            responses[String(response.status)] = {
+                description: response.description ?? "",
+                ...(schema && { content: { [response.contentType ?? "application/json"]: { schema } } }),
+            };
+        }
+
+        // Optional segments expand to multiple paths, longest first. Only the longest keeps the plain id.
+        for (const [i, pattern] of expandRoutePattern(route.path).entries()) {
+            const { path, params: pathParams } = toOpenAPIPath(pattern);
+            const parameters: HTTPJSONSchema[] = [];
+
+            for (const name of pathParams) {
+                const param = params.find(
+                    (p) => p.$http_param_type === "param" && p.$http_param_name === name
+                );
+                const schema =
+                    toJSONSchema(param?.$http_schema, options) ?? allParamsSchema?.properties?.[name];
+                parameters.push({ name, in: "path", required: true, schema: schema ?? { type: "string" } });
+            }
+
+            for (const [name, schema] of Object.entries<HTTPJSONSchema>(querySchema?.properties ?? {})) {
+                parameters.push({
+                    name,
+                    in: "query",
+                    required: querySchema?.required?.includes(name) ?? false,
+                    schema,
+                });
+            }
+
+            paths[path] ??= {};
+            paths[path][route.method.toLowerCase()] = {
+                operationId: i ? `${field}${i + 1}` : field,
+                ...(prop.$http_summary && { summary: prop.$http_summary }),
+                ...(prop.$http_description && { description: prop.$http_description }),
+                ...(tags.length && { tags }),
+                ...(parameters.length && { parameters }),
+                ...(bodyParam && {
+                    requestBody: {
+                        required: true,
+                        content: {
+                            "application/json": {
+                                schema: toJSONSchema(bodyParam.$http_schema, options) ?? {},
+                            },
+                        },
+                    },
+                }),
+                responses,
+                ...(security && { security }),
+                ...(route.deprecated && { deprecated: true }),
+            };
+        }
+    }
+
+    return {
+        openapi: "3.1.0",
+        info: options.info,
+        ...(options.servers && { servers: options.servers }),
+        paths,
+        ...(options.securitySchemes && { components: { securitySchemes: options.securitySchemes } }),
+    };
+}
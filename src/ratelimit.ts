@@ -0,0 +1,112 @@
+import type {
+    HTTPNormalizedRequest,
+    HTTPRateLimitAlgorithm,
+    HTTPRateLimitOptions,
+    HTTPRateLimitResult,
+    HTTPRateLimitStore,
+} from "./types";
+
+type Limit = { window: number; max: number; algorithm: HTTPRateLimitAlgorithm };
+
+type Entry = { value: number; time: number; expires: number };
+
+/**
+ * Counts requests in memory. Counters are not shared between processes.
+ */
+export class HTTPMemoryRateLimitStore implements HTTPRateLimitStore {
+    private _entries = new Map<string, Entry>();
+
+    consume(key: string, limit: Limit): HTTPRateLimitResult {
+        const now = Date.now();
+        if (this._entries.size > 10_000) this.prune();
+
+        return limit.algorithm === "token-bucket"
+            ? this._consumeToken(key, limit, now)
+            : this._consumeWindow(key, limit, now);
+    }
+
+    /**
+     * `value` is the request count, `time` the end of the window
+     */
+    private _consumeWindow(key: string, { window, max }: Limit, now: number): HTTPRateLimitResult {
+        let entry = this._entries.get(key);
+        if (!entry || entry.time <= now) {
+            entry = { value: 0, time: now + window, expires: now + window };
+            this._entries.set(key, entry);
+        }
+
+        entry.value++;
+
+        return {
+            allowed: entry.value <= max,
+            limit: max,
+            remaining: Math.max(0, max - entry.value),
+            reset: entry.time - now,
+        };
+    }
+
+    /**
+     * `value` is the number of tokens, `time` the time of the last refill
+     */
+    private _consumeToken(key: string, { window, max }: Limit, now: number): HTTPRateLimitResult {
+        const rate = max / window;
+        const entry = this._entries.get(key) ?? { value: max, time: now, expires: now };
+
+        entry.value = Math.min(max, entry.value + (now - entry.time) * rate);
+        entry.time = now;
+
+        const allowed = entry.value >= 1;
+        if (allowed) entry.value--;
+
+        entry.expires = now + (max - entry.value) / rate;
+        this._entries.set(key, entry);
+
+        return {
+            allowed,
+            limit: max,
+            remaining: Math.floor(entry.value),
+            reset: Math.ceil(allowed ? (max - entry.value) / rate : (1 - entry.value) / rate),
+        };
+    }
+
+    /**
+     * Removes expired counters
+     */
+    prune() {
+        const now = Date.now();
+        for (const [key, entry] of this._entries) {
+            if (entry.expires <= now) this._entries.delete(key);
+        }
+    }
+}
+
+const defaultStore = new HTTPMemoryRateLimitStore();
+
+/**
+ * Consumes a request of the rate limit
+ * @param scope Separates the counters of different limits in shared stores
+ */
+export async function consumeRateLimit(
+    request: HTTPNormalizedRequest,
+    options: HTTPRateLimitOptions,
+    scope: string
+): Promise<HTTPRateLimitResult> {
+    const key = options.key
+        ? await options.key(request)
+        : (request.principal?.id ?? request.ip ?? "anonymous");
+
+    return await (options.store ?? defaultStore).consume(`${scope}:${key}`, {
+        window: options.window,
+        max: options.max,
+        algorithm: options.algorithm ?? "fixed-window",
+    });
+}
+
+/**
+ * Sets the `RateLimit-Limit`, `RateLimit-Remaining` and `RateLimit-Reset` (in seconds) headers
+ */
+export function setRateLimitHeaders(headers: Headers, result: HTTPRateLimitResult) {
+    headers.set("RateLimit-Limit", String(result.limit));
+    headers.set("RateLimit-Remaining", String(result.remaining));
+    headers.set("RateLimit-Reset", String(Math.ceil(result.reset / 1000)));
+}
@@ -0,0 +1,253 @@
+import { HTTPBadRequestError, HTTPConflictError, HTTPNotFoundError } from "./errors";
+import type {
+    HTTPNormalizedResponse,
+    HTTPRepository,
+    HTTPRepositoryPage,
+    HTTPRepositoryQuery,
+    HTTPResourceOperation,
+    HTTPResourceOptions,
+} from "./types";
+
+export const RESOURCE_OPERATIONS: HTTPResourceOperation[] = [
+    "list",
+    "get",
+    "create",
+    "update",
+    "patch",
+    "delete",
+];
+
+/** Query keys of the list operation, that do not filter */
+const RESERVED_QUERY_KEYS = ["sort", "offset", "limit"];
+
+/**
+ * Thrown by repositories, if an entity conflicts with an existing one, e.g. when its id is taken.
+ * `@Resource` handlers respond with _409 Conflict_.
+ */
+export class RepositoryConflictError extends Error {
+    constructor(message = "Conflict") {
+        super(message);
+        this.name = "RepositoryConflictError";
+    }
+}
+
+function isMissing(value: unknown): boolean {
+    return value === undefined || value === null;
+}
+
+function compareValues(a: unknown, b: unknown): number {
+    if (a === b) return 0;
+    if (typeof a === "number" && typeof b === "number") return a - b;
+    if (a instanceof Date && b instanceof Date) return a.getTime() - b.getTime();
+    return String(a).localeCompare(String(b));
+}
+
+/**
+ * Stores entities in memory. Filters compare the string representation of values.
+ * @param options.idKey The id property of the entities. Defaults to `"id"`
+ * @param options.generateId Generates ids of created entities without id. Defaults to random UUIDs
+ */
+export class HTTPMemoryRepository<
+    T extends Record<string, any> = Record<string, any>,
+> implements HTTPRepository<T> {
+    private _entities = new Map<string, T>();
+    private _idKey: string;
+    private _generateId: () => string;
+
+    constructor(entities: T[] = [], options: { idKey?: string; generateId?: () => string } = {}) {
+        this._idKey = options.idKey ?? "id";
+        this._generateId = options.generateId ?? (() => crypto.randomUUID());
+        for (const entity of entities)
+            this._entities.set(String(entity[this._idKey]), structuredClone(entity));
+    }
+
+    list(query: HTTPRepositoryQuery): HTTPRepositoryPage<T> {
+        let items = [...this._entities.values()].filter((entity) =>
+            Object.entries(query.filter).every(([key, values]) => values.includes(String(entity[key])))
+        );
+
+        if (query.sort.length) {
+            items.sort((a, b) => {
+                for (const { key, order } of query.sort) {
+                    // Missing values last in both orders
+                    if (isMissing(a[key]) || isMissing(b[key])) {
+                        if (isMissing(a[key]) !== isMissing(b[key])) return isMissing(a[key]) ? 1 : -1;
+                        continue;
+                    }
+                    const result = compareValues(a[key], b[key]);
+                    if (result) return order === "desc" ? -result : result;
+                }
+                return 0;
+            });
+        }
+
+        return {
+            items: items
+                .slice(query.offset, query.offset + query.limit)
+                .map((entity) => structuredClone(entity)),
+            total: items.length,
+        };
+    }
+
+    get(id: string): T | undefined {
+        const entity = this._entities.get(id);
+        return entity && structuredClone(entity);
+    }
+
+    create(data: Partial<T>): T {
+        const id = data[this._idKey] === undefined ? this._generateId() : String(data[this._idKey]);
+        if (this._entities.has(id)) throw new RepositoryConflictError(`Entity ${id} exists already`);
+
+        const entity = { ...structuredClone(data), [this._idKey]: data[this._idKey] ?? id } as T;
+        this._entities.set(id, entity);
+
+        return structuredClone(entity);
+    }
+
+    update(id: string, data: Partial<T>): T | undefined {
+        const entity = this._entities.get(id);
+        if (!entity) return undefined;
+
+        const updated = { ...structuredClone(data), [this._idKey]: entity[this._idKey] } as T;
+        this._entities.set(id, updated);
+
+        return structuredClone(updated);
+    }
+
+    patch(id: string, data: Partial<T>): T | undefined {
+        const entity = this._entities.get(id);
+        if (!entity) return undefined;
+
+        const patched = { ...entity, ...structuredClone(data), [this._idKey]: entity[this._idKey] } as T;
+        this._entities.set(id, patched);
+
+        return structuredClone(patched);
+    }
+
+    delete(id: string): boolean {
+        return this._entities.delete(id);
+    }
+}
+
+function parseInteger(searchParams: URLSearchParams, key: string, fallback: number): number {
+    const value = searchParams.get(key);
+    if (value === null) return fallback;
+
+    const number = Number(value);
+    if (!Number.isInteger(number) || number < 0)
+        throw new HTTPBadRequestError(`Query parameter "${key}" must be a non-negative integer`);
+
+    return number;
+}
+
+/**
+ * Parses the query of a list request: `?role=admin&role=owner&sort=name,-createdAt&offset=20&limit=10`.
+ * Other keys than `sort`, `offset` and `limit` filter the list.
+ * @throws `HTTPBadRequestError` if a key is not filterable or sortable or the pagination is invalid
+ */
+export function parseRepositoryQuery(
+    searchParams: URLSearchParams,
+    options: HTTPResourceOptions = {}
+): HTTPRepositoryQuery {
+    const filter: Record<string, string[]> = {};
+
+    for (const key of new Set(searchParams.keys())) {
+        if (RESERVED_QUERY_KEYS.includes(key)) continue;
+        if (options.filterable && !options.filterable.includes(key))
+            throw new HTTPBadRequestError(`Cannot filter by "${key}"`);
+        filter[key] = searchParams.getAll(key);
+    }
+
+    const sort = (searchParams.get("sort") ?? "")
+        .split(",")
+        .map((key) => key.trim())
+        .filter(Boolean)
+        .map((key) =>
+            key.startsWith("-")
+                ? { key: key.slice(1), order: "desc" as const }
+                : { key: key.replace(/^\+/, ""), order: "asc" as const }
+        );
+    for (const { key } of sort) {
+        if (options.sortable && !options.sortable.includes(key))
+            throw new HTTPBadRequestError(`Cannot sort by "${key}"`);
+    }
+
+    return {
+        filter,
+        sort,
+        offset: parseInteger(searchParams, "offset", 0),
+        limit: Math.min(
+            parseInteger(searchParams, "limit", options.defaultLimit ?? 20),
+            options.maxLimit ?? 100
+        ),
+    };
+}
+
+function assertObjectBody(body: unknown): asserts body is Record<string, any> {
+    if (typeof body !== "object" || body === null || Array.isArray(body) || body instanceof Uint8Array)
+        throw new HTTPBadRequestError("Expected an object");
+}
+
+async function call<R>(fn: () => R | Promise<R>): Promise<R> {
+    try {
+        return await fn();
+    } catch (err) {
+        if (err instanceof RepositoryConflictError) throw new HTTPConflictError(err.message, err);
+        throw err;
+    }
+}
+
+function found<T>(entity: T | undefined): T {
+    if (entity === undefined) throw new HTTPNotFoundError();
+    return entity;
+}
+
+/**
+ * Creates the handler of a `@Resource` operation. The parameters are injected by `@Resource`:
+ * the search params for `list`, the `id` path parameter and the body for the other operations.
+ */
+export function createResourceHandler(
+    operation: HTTPResourceOperation,
+    path: string,
+    repository: HTTPRepository,
+    options: HTTPResourceOptions = {}
+): (...args: any[]) => Promise<HTTPNormalizedResponse> {
+    switch (operation) {
+        case "list":
+            return async function (searchParams: URLSearchParams) {
+                const query = parseRepositoryQuery(searchParams, options);
+                const page = await call(() => repository.list(query));
+                return { status: 200, body: { ...page, offset: query.offset, limit: query.limit } };
+            };
+        case "get":
+            return async function (id: string) {
+                return { status: 200, body: found(await call(() => repository.get(id))) };
+            };
+        case "create":
+            return async function (body: unknown) {
+                assertObjectBody(body);
+                const entity = await call(() => repository.create(body));
+                const headers = new Headers();
+                // The location is only known for paths without parameters
+                const id = entity[options.idKey ?? "id"];
+                if (id !== undefined && !/[:*]/.test(path))
+                    headers.set("Location", `${path.replace(/\/$/, "")}/${encodeURIComponent(String(id))}`);
+                return { status: 201, headers, body: entity };
+            };
+        case "update":
+            return async function (id: string, body: unknown) {
+                assertObjectBody(body);
+                return { status: 200, body: found(await call(() => repository.update(id, body))) };
+            };
+        case "patch":
+            return async function (id: string, body: unknown) {
+                assertObjectBody(body);
+                return { status: 200, body: found(await call(() => repository.patch(id, body))) };
+            };
+        case "delete":
+            return async function (id: string) {
+                if (!(await call(() => repository.delete(id)))) throw new HTTPNotFoundError();
+                return { status: 204 };
+            };
+    }
+}
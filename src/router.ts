@@ -0,0 +1,166 @@
+type RouteEntry<T> = { value: T; pattern: string };
+
+type RouteNode<T> = {
+    statics: Map<string, RouteNode<T>>;
+    /** Parameter children by parameter name. Checked in insertion order */
+    params: Map<string, RouteNode<T>>;
+    wildcard?: { name: string; entries: RouteEntry<T>[] };
+    entries: RouteEntry<T>[];
+};
+
+export type HTTPRouteMatch<T> = {
+    value: T;
+    /** The pattern the value was registered with */
+    pattern: string;
+    params: Record<string, string>;
+};
+
+function createNode<T>(): RouteNode<T> {
+    return { statics: new Map(), params: new Map(), entries: [] };
+}
+
+function decodeSegment(segment: string): string {
+    try {
+        return decodeURIComponent(segment);
+    } catch {
+        return segment;
+    }
+}
+
+function splitPath(path: string): string[] {
+    return path.split("/").filter(Boolean);
+}
+
+/**
+ * Expands optional segments (`:name?`) into all the patterns they describe.
+ */
+function expandOptionals(segments: string[]): string[][] {
+    let result: string[][] = [[]];
+    for (const segment of segments) {
+        if (segment.startsWith(":") && segment.endsWith("?")) {
+            const required = segment.slice(0, -1);
+            result = [...result.map((s) => [...s, required]), ...result];
+        } else {
+            result = result.map((s) => [...s, segment]);
+        }
+    }
+    return result;
+}
+
+/**
+ * @returns The patterns described by the pattern with optional segments, normalized to start with `/`
+ */
+export function expandRoutePattern(pattern: string): string[] {
+    return expandOptionals(splitPath(pattern)).map((segments) => "/" + segments.join("/"));
+}
+
+/**
+ * A route tree supporting static segments, parameters (`:id`), optional parameters (`:id?`)
+ * and trailing wildcards (`*rest` or `*`).
+ *
+ * Matching precedence is static > param > wildcard, on every segment.
+ * A wildcard captures the remaining path (possibly empty) as a single string.
+ */
+export class HTTPRouter<T> {
+    private _root: RouteNode<T> = createNode();
+
+    add(pattern: string, value: T) {
+        for (const segments of expandOptionals(splitPath(pattern))) {
+            this._insert(segments, { value, pattern });
+        }
+    }
+
+    private _insert(segments: string[], entry: RouteEntry<T>) {
+        let node = this._root;
+
+        for (let i = 0; i < segments.length; i++) {
+            const segment = segments[i];
+
+            if (segment.startsWith("*")) {
+                if (i !== segments.length - 1)
+                    throw new Error(`Wildcards must be the last segment (route "${entry.pattern}")`);
+                const name = segment.slice(1) || "*";
+                if (node.wildcard && node.wildcard.name !== name)
+                    throw new Error(
+                        `Conflicting wildcard names "${node.wildcard.name}" and "${name}" (route "${entry.pattern}")`
+                    );
+                if (!node.wildcard) node.wildcard = { name, entries: [] };
+                node.wildcard.entries.push(entry);
+                return;
+            }
+
+            if (segment.startsWith(":")) {
+                const name = segment.slice(1);
+                if (!name) throw new Error(`Missing parameter name (route "${entry.pattern}")`);
+                if (!node.params.has(name)) node.params.set(name, createNode());
+                node = node.params.get(name)!;
+            } else {
+                if (!node.statics.has(segment)) node.statics.set(segment, createNode());
+                node = node.statics.get(segment)!;
+            }
+        }
+
+        node.entries.push(entry);
+    }
+
+    /**
+     * @param accept Filters the routes. The first accepted route in precedence order is returned.
+     */
+    match(path: string, accept: (value: T) => boolean = () => true): HTTPRouteMatch<T> | null {
+        let result: HTTPRouteMatch<T> | null = null;
+        this._find(this._root, splitPath(path.split("?")[0]).map(decodeSegment), 0, {}, (entry, params) => {
+            if (!accept(entry.value)) return false;
+            result = { value: entry.value, pattern: entry.pattern, params };
+            return true;
+        });
+        return result;
+    }
+
+    /**
+     * @returns All routes matching the path in precedence order
+     */
+    matchAll(path: string): HTTPRouteMatch<T>[] {
+        const result: HTTPRouteMatch<T>[] = [];
+        this._find(this._root, splitPath(path.split("?")[0]).map(decodeSegment), 0, {}, (entry, params) => {
+            result.push({ value: entry.value, pattern: entry.pattern, params });
+            return false;
+        });
+        return result;
+    }
+
+    /**
+     * @param visit Returns `true` to stop the search
+     * @returns `true` if the search was stopped
+     */
+    private _find(
+        node: RouteNode<T>,
+        segments: string[],
+        index: number,
+        params: Record<string, string>,
+        visit: (entry: RouteEntry<T>, params: Record<string, string>) => boolean
+    ): boolean {
+        if (index === segments.length) {
+            for (const entry of node.entries) {
+                if (visit(entry, params)) return true;
+            }
+        } else {
+            const segment = segments[index];
+            const staticChild = node.statics.get(segment);
+
+            if (staticChild && this._find(staticChild, segments, index + 1, params, visit)) return true;
+
+            for (const [name, child] of node.params) {
+                if (this._find(child, segments, index + 1, { ...params, [name]: segment }, visit)) return true;
+            }
+        }
+
+        if (node.wildcard) {
+            const rest = segments.slice(index).join("/");
+            for (const entry of node.wildcard.entries) {
+                if (visit(entry, { ...params, [node.wildcard.name]: rest })) return true;
+            }
+        }
+
+        return false;
+    }
+}
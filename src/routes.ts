@@ -0,0 +1,158 @@
+import { App, FieldShadow, Instance, Shadow } from "../../njses";
+import { HTTP_ROLE } from "./const";
+import type { HTTPRouteMatch } from "./router";
+import type { HTTPDeprecation, HTTPServiceClass } from "./types";
+
+/**
+ * A handler of the handler service or of a service it mounts
+ */
+export type HTTPRoute = {
+    /** The service declaring the handler */
+    service: Instance;
+    field: FieldShadow;
+    method: string;
+    /** The handler path including the prefixes */
+    path: string;
+    version?: string;
+    deprecated?: HTTPDeprecation;
+};
+
+const VERSION_SEGMENT = /^\/v(\d+(?:\.\d+)*)(?=\/|$)/;
+
+/**
+ * Joins path segments with single slashes
+ */
+export function joinPaths(...paths: string[]): string {
+    const segments = paths.flatMap((path) => path.split("/")).filter(Boolean);
+    return "/" + segments.join("/");
+}
+
+/**
+ * Compares versions segment by segment, numerically if possible. A leading `v` is ignored.
+ */
+export function compareVersions(a: string, b: string): number {
+    const as = a.replace(/^v/i, "").split(".");
+    const bs = b.replace(/^v/i, "").split(".");
+
+    for (let i = 0; i < Math.max(as.length, bs.length); i++) {
+        const x = as[i] ?? "0";
+        const y = bs[i] ?? "0";
+        const result = /^\d+$/.test(x) && /^\d+$/.test(y) ? Number(x) - Number(y) : x.localeCompare(y);
+        if (result) return result;
+    }
+
+    return 0;
+}
+
+/**
+ * @returns The version and the remaining path, if the path starts with a version segment (`/v2/users`)
+ */
+export function parseVersionSegment(path: string): { version: string; path: string } | null {
+    const match = VERSION_SEGMENT.exec(path);
+    if (!match) return null;
+    return { version: match[1], path: path.slice(match[0].length) || "/" };
+}
+
+function toDeprecation(deprecated: boolean | HTTPDeprecation | undefined): HTTPDeprecation | undefined {
+    if (deprecated === true) return {};
+    if (deprecated === false) return undefined;
+    return deprecated;
+}
+
+function resolveMountedService(service: HTTPServiceClass): Instance {
+    const instance = App.getAssignees(HTTP_ROLE.SERVICE).find((s) => s instanceof service);
+    if (!instance) throw new Error(`Mounted service "${service.name}" is not an http service`);
+    return instance;
+}
+
+/**
+ * @returns The prefix of the http service including the prefixes of the services mounting it
+ */
+export function getServicePrefix(service: HTTPServiceClass): string {
+    const prefixes: string[] = [];
+    let current: HTTPServiceClass | undefined = service;
+
+    while (current) {
+        const shadow = Shadow.get(current);
+        prefixes.unshift(shadow?.getCtx("$http_options")?.prefix ?? "");
+        current = shadow?.getCtx("$http_parent") as HTTPServiceClass | undefined;
+    }
+
+    return joinPaths(...prefixes);
+}
+
+/**
+ * Collects the handlers of the handler service and the services it mounts (recursively),
+ * applying their prefixes, versions and deprecations
+ */
+export function collectRoutes(handlerService: Instance): HTTPRoute[] {
+    const routes: HTTPRoute[] = [];
+
+    const visit = (
+        service: Instance,
+        prefix: string,
+        version: string | undefined,
+        deprecated: HTTPDeprecation | undefined
+    ) => {
+        const shadow = Shadow.require(service);
+        const options = shadow.getCtx("$http_options") ?? {};
+
+        prefix = joinPaths(prefix, options.prefix ?? "");
+        version = options.version ?? version;
+        deprecated = toDeprecation(options.deprecated) ?? deprecated;
+
+        for (const field of shadow.getFields()) {
+            if (!field.$http_method) continue;
+            routes.push({
+                service,
+                field,
+                method: field.$http_method,
+                path: joinPaths(prefix, field.$http_path ?? ""),
+                version,
+                deprecated: field.$http_deprecated ?? deprecated,
+            });
+        }
+
+        for (const mounted of options.mount ?? []) {
+            visit(resolveMountedService(mounted), prefix, version, deprecated);
+        }
+    };
+
+    visit(handlerService, "", undefined, undefined);
+
+    return routes;
+}
+
+/**
+ * Selects the route of the requested version from the matches (in precedence order).
+ * Without route of the version the route of the next older version is selected. Unversioned routes
+ * serve any version. Without requested version the latest route is selected.
+ */
+export function selectRoute(
+    matches: HTTPRouteMatch<HTTPRoute>[],
+    version?: string
+): HTTPRouteMatch<HTTPRoute> | null {
+    const versions = [
+        ...new Set(matches.map((match) => match.value.version).filter((v): v is string => v !== undefined)),
+    ]
+        .filter((v) => version === undefined || compareVersions(v, version) <= 0)
+        .sort((a, b) => compareVersions(b, a));
+
+    for (const v of versions) {
+        const match = matches.find((m) => m.value.version === undefined || m.value.version === v);
+        if (match) return match;
+    }
+
+    return matches.find((match) => match.value.version === undefined) ?? null;
+}
+
+/**
+ * Sets the `Deprecation`, `Sunset` and `Link` headers. The `Deprecation` header is a date (RFC 9745),
+ * without `deprecation.date` the current date is sent.
+ */
+export function setDeprecationHeaders(headers: Headers, deprecation: HTTPDeprecation) {
+    const date = deprecation.date ?? new Date();
+    headers.set("Deprecation", `@${Math.floor(date.getTime() / 1000)}`);
+    if (deprecation.sunset) headers.set("Sunset", deprecation.sunset.toUTCString());
+    if (deprecation.link) headers.append("Link", `<${deprecation.link}>; rel="deprecation"`);
+}
@@ -0,0 +1,26 @@
+import { Authenticator, HTTP } from "../decorators";
+import type { HTTPAuthStrategy, HTTPNormalizedRequest, HTTPPrincipal } from "../types";
+
+/**
+ * Creates the http service, that authenticates requests with the first strategy returning a principal.
+ *
+ * @example
+ * createAuthService(jwtStrategy({ keys: [process.env.JWT_SECRET] }), apiKeyStrategy(findClientByKey));
+ */
+export function createAuthService(...strategies: HTTPAuthStrategy[]) {
+    const challenges = strategies.flatMap((strategy) => (strategy.challenge ? [strategy.challenge] : []));
+
+    @HTTP()
+    class HTTPAuthService {
+        @Authenticator(challenges)
+        async authenticate(request: HTTPNormalizedRequest): Promise<HTTPPrincipal | null> {
+            for (const strategy of strategies) {
+                const principal = await strategy.authenticate(request);
+                if (principal) return principal;
+            }
+            return null;
+        }
+    }
+
+    return HTTPAuthService;
+}
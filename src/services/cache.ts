@@ -0,0 +1,50 @@
+import { checkPreconditions, generateETag, toNotModifiedResponse } from "../cache";
+import { isStreamBody } from "../content";
+import { HTTP, Refine } from "../decorators";
+import type { HTTPNormalizedRequest, HTTPNormalizedResponse } from "../types";
+
+/**
+ * Creates the http service, that answers conditional GET and HEAD requests.
+ * Successful responses without `ETag` get one generated from the body (streamed bodies are skipped).
+ * `If-None-Match` and `If-Modified-Since` (against the `Last-Modified` header of the response) result in
+ * _304 Not Modified_, `If-Match` and `If-Unmodified-Since` in _412 Precondition Failed_.
+ *
+ * The handler has already run when the response is refined. Use `checkPreconditions` in handlers, that
+ * modify resources.
+ *
+ * The service refines with priority `-90`, after other http services, but before compression.
+ * @param options.weak Generate weak ETags. Defaults to `false`
+ */
+export function createCacheService(options: { weak?: boolean } = {}) {
+    @HTTP({ priority: -90 })
+    class HTTPCacheService {
+        @Refine
+        async conditional(
+            request: HTTPNormalizedRequest,
+            response: HTTPNormalizedResponse
+        ): Promise<HTTPNormalizedResponse> {
+            if (request.method !== "GET" && request.method !== "HEAD") return response;
+            if ((response.status ?? 200) !== 200) return response;
+
+            const headers = new Headers(response.headers);
+            const body = response.body;
+
+            if (!headers.has("ETag") && body !== undefined && body !== null && !isStreamBody(body)) {
+                const raw =
+                    typeof body === "string" || body instanceof Uint8Array ? body : JSON.stringify(body);
+                headers.set("ETag", await generateETag(raw, options.weak));
+            }
+
+            const lastModified = headers.get("Last-Modified");
+            const notModified = checkPreconditions(request, {
+                etag: headers.get("ETag") ?? undefined,
+                lastModified: lastModified ? new Date(lastModified) : undefined,
+            });
+
+            response = { ...response, headers };
+            return notModified ? await toNotModifiedResponse(response) : response;
+        }
+    }
+
+    return HTTPCacheService;
+}
@@ -0,0 +1,189 @@
+import { pipeline, Readable, type Transform } from "node:stream";
+import type { ReadableStream as NodeReadableStream } from "node:stream/web";
+import { promisify } from "node:util";
+import {
+    brotliCompress,
+    constants,
+    createBrotliCompress,
+    createDeflate,
+    createGzip,
+    deflate,
+    gzip,
+} from "node:zlib";
+import { isStreamBody } from "../content";
+import { HTTP, Refine } from "../decorators";
+import type {
+    HTTPCompressionEncoding,
+    HTTPCompressionOptions,
+    HTTPNormalizedRequest,
+    HTTPNormalizedResponse,
+} from "../types";
+import { appendVary } from "../util";
+
+const brotliCompressAsync = promisify(brotliCompress);
+const gzipAsync = promisify(gzip);
+const deflateAsync = promisify(deflate);
+
+/** 1 KiB */
+export const DEFAULT_COMPRESSION_THRESHOLD = 1024;
+
+const COMPRESSIBLE =
+    /^(text\/(?!event-stream)|application\/(json|javascript|xml|[^;]*\+(json|xml))|image\/svg\+xml)/i;
+
+/**
+ * Selects the encoding preferred by the `Accept-Encoding` header.
+ * Equally preferred encodings are selected in their order.
+ * @returns The selected encoding or `null` if the body should not be encoded
+ */
+export function negotiateEncoding(
+    acceptEncoding: string | null | undefined,
+    encodings: HTTPCompressionEncoding[]
+): HTTPCompressionEncoding | null {
+    if (!acceptEncoding?.trim()) return null;
+
+    const qualities = new Map<string, number>();
+    for (const part of acceptEncoding.split(",")) {
+        const [coding, ...params] = part.split(";").map((p) => p.trim().toLowerCase());
+        if (!coding) continue;
+        const q = params.find((p) => p.startsWith("q="));
+        const quality = q ? Number(q.slice(2)) : 1;
+        qualities.set(coding, Number.isNaN(quality) ? 1 : quality);
+    }
+
+    let selected: { encoding: HTTPCompressionEncoding; q: number } | null = null;
+
+    for (const encoding of encodings) {
+        const q = qualities.get(encoding) ?? qualities.get("*") ?? 0;
+        if (q > 0 && (!selected || q > selected.q)) selected = { encoding, q };
+    }
+
+    return selected?.encoding ?? null;
+}
+
+function setEncodingHeaders(headers: Headers, encoding: HTTPCompressionEncoding) {
+    headers.set("Content-Encoding", encoding);
+    headers.delete("Content-Length");
+    const etag = headers.get("ETag");
+    if (etag && !etag.startsWith("W/")) headers.set("ETag", `W/${etag}`);
+}
+
+/**
+ * Creates the http service, that compresses response bodies with brotli, gzip or deflate,
+ * as negotiated by the `Accept-Encoding` header. Bodies smaller than the threshold (streamed bodies
+ * by their `Content-Length`), already encoded bodies, partial content and responses
+ * with `Cache-Control: no-transform` are sent as is. Streamed bodies are flushed with every chunk.
+ * Strong ETags of compressed responses are weakened, since the bytes differ from the uncompressed body.
+ *
+ * The service refines with priority `-100`, after other http services. Requires `node:zlib`.
+ */
+export function createCompressionService(options: HTTPCompressionOptions = {}) {
+    const threshold = options.threshold ?? DEFAULT_COMPRESSION_THRESHOLD;
+    const encodings = options.encodings ?? ["br", "gzip", "deflate"];
+    const filter = options.filter ?? ((contentType: string) => COMPRESSIBLE.test(contentType));
+
+    const compress = (encoding: HTTPCompressionEncoding, body: Buffer): Promise<Buffer> => {
+        switch (encoding) {
+            case "br":
+                return brotliCompressAsync(body, {
+                    params: {
+                        [constants.BROTLI_PARAM_QUALITY]: options.quality ?? 4,
+                        [constants.BROTLI_PARAM_SIZE_HINT]: body.byteLength,
+                    },
+                });
+            case "gzip":
+                return gzipAsync(body, { level: options.level });
+            case "deflate":
+                return deflateAsync(body, { level: options.level });
+        }
+    };
+
+    const createCompressStream = (encoding: HTTPCompressionEncoding): Transform => {
+        switch (encoding) {
+            case "br":
+                return createBrotliCompress({
+                    flush: constants.BROTLI_OPERATION_FLUSH,
+                    params: { [constants.BROTLI_PARAM_QUALITY]: options.quality ?? 4 },
+                });
+            case "gzip":
+                return createGzip({ level: options.level, flush: constants.Z_SYNC_FLUSH });
+            case "deflate":
+                return createDeflate({ level: options.level, flush: constants.Z_SYNC_FLUSH });
+        }
+    };
+
+    @HTTP({ priority: -100 })
+    class HTTPCompressionService {
+        @Refine
+        async compress(
+            request: HTTPNormalizedRequest,
+            response: HTTPNormalizedResponse
+        ): Promise<HTTPNormalizedResponse> {
+            const status = response.status ?? 200;
+            let body = response.body;
+
+            if (body === undefined || body === null) return response;
+            if (status < 200 || status === 204 || status === 206 || status === 304) return response;
+
+            const headers = new Headers(response.headers);
+            if (headers.has("Content-Encoding")) return response;
+            if (/(^|,)\s*no-transform\s*(,|$)/i.test(headers.get("Cache-Control") ?? "")) return response;
+
+            if (isStreamBody(body)) {
+                if (!filter(headers.get("Content-Type") ?? "")) return response;
+                appendVary(headers, "Accept-Encoding");
+
+                const length = Number(headers.get("Content-Length") ?? Infinity);
+                const encoding =
+                    length >= threshold
+                        ? negotiateEncoding(request.headers.get("Accept-Encoding"), encodings)
+                        : null;
+                if (!encoding) return { ...response, headers };
+
+                const source =
+                    body instanceof ReadableStream
+                        ? Readable.fromWeb(body as NodeReadableStream)
+                        : Readable.from(body);
+                // Destroys the source, if the compressed stream is destroyed
+                const compressed = pipeline(source, createCompressStream(encoding), () => {});
+
+                setEncodingHeaders(headers, encoding);
+                return { ...response, headers, body: compressed };
+            }
+
+            if (typeof body !== "string" && !(body instanceof Uint8Array)) {
+                // Serialize as the adapters would
+                body = JSON.stringify(body);
+                if (!headers.has("Content-Type")) headers.set("Content-Type", "application/json");
+            }
+
+            if (!filter(headers.get("Content-Type") ?? "")) return response;
+
+            // The representation depends on the encoding, even if this one is not compressed
+            appendVary(headers, "Accept-Encoding");
+
+            const raw =
+                typeof body === "string"
+                    ? Buffer.from(body)
+                    : Buffer.from(body.buffer, body.byteOffset, body.byteLength);
+            const encoding =
+                raw.byteLength >= threshold
+                    ? negotiateEncoding(request.headers.get("Accept-Encoding"), encodings)
+                    : null;
+            if (!encoding) return { ...response, headers, body };
+
+            const compressed = await compress(encoding, raw);
+            // Compressing may not pay off for small or random data
+            if (compressed.byteLength >= raw.byteLength) return { ...response, headers, body };
+
+            setEncodingHeaders(headers, encoding);
+
+            return {
+                ...response,
+                headers,
+                body: new Uint8Array(compressed.buffer, compressed.byteOffset, compressed.byteLength),
+            };
+        }
+    }
+
+    return HTTPCompressionService;
+}
@@ -0,0 +1,75 @@
+import { parseMediaType } from "../content";
+import { ContentParser, ContentSerializer, HTTP } from "../decorators";
+import { HTTPBadRequestError } from "../errors";
+import type { HTTPNormalizedRequest } from "../types";
+import { parseQuery } from "../validation";
+
+function decodeText(body: Uint8Array, request: HTTPNormalizedRequest): string {
+    const charset = parseMediaType(request.headers.get("Content-Type") ?? "").params.charset ?? "utf-8";
+    try {
+        return new TextDecoder(charset).decode(body);
+    } catch (err) {
+        throw new HTTPBadRequestError(`Unsupported charset "${charset}"`, err);
+    }
+}
+
+/**
+ * Built-in content parsers for JSON, urlencoded forms, text, multipart forms and binary bodies
+ * and content serializers for JSON, text and urlencoded forms.
+ *
+ * Multipart bodies are parsed to `FormData`, so file parts are received as `File`s.
+ * Binary (`application/octet-stream`) bodies are received as `Uint8Array`.
+ */
+@HTTP()
+export class HTTPContentService {
+    @ContentParser(["application/json", "application/*+json"])
+    parseJSON(body: Uint8Array, request: HTTPNormalizedRequest) {
+        try {
+            return JSON.parse(decodeText(body, request));
+        } catch (err) {
+            if (err instanceof SyntaxError) throw new HTTPBadRequestError("Invalid JSON body", err);
+            throw err;
+        }
+    }
+
+    @ContentParser("application/x-www-form-urlencoded")
+    parseURLEncoded(body: Uint8Array, request: HTTPNormalizedRequest) {
+        return parseQuery(new URLSearchParams(decodeText(body, request)), false);
+    }
+
+    @ContentParser("text/*")
+    parseText(body: Uint8Array, request: HTTPNormalizedRequest) {
+        return decodeText(body, request);
+    }
+
+    @ContentParser("multipart/form-data")
+    async parseMultipart(body: Uint8Array, request: HTTPNormalizedRequest): Promise<FormData> {
+        try {
+            return await new Response(body as BodyInit, {
+                headers: { "Content-Type": request.headers.get("Content-Type")! },
+            }).formData();
+        } catch (err) {
+            throw new HTTPBadRequestError("Invalid multipart body", err);
+        }
+    }
+
+    @ContentParser("application/octet-stream")
+    parseBinary(body: Uint8Array) {
+        return body;
+    }
+
+    @ContentSerializer("application/json")
+    serializeJSON(body: any) {
+        return JSON.stringify(body);
+    }
+
+    @ContentSerializer("text/plain")
+    serializeText(body: any) {
+        return typeof body === "object" ? JSON.stringify(body) : String(body);
+    }
+
+    @ContentSerializer("application/x-www-form-urlencoded")
+    serializeURLEncoded(body: any) {
+        return new URLSearchParams(body).toString();
+    }
+}
@@ -0,0 +1,79 @@
+import { HTTP, Middleware, OnError, OnResponse, type HTTPResponseInfo } from "../decorators";
+import { HTTPError } from "../errors";
+import { childLogger, HTTPConsoleLogger } from "../logging";
+import type { HTTPLogger, HTTPNormalizedRequest, HTTPNormalizedResponse } from "../types";
+
+/**
+ * Creates the http service, that sets the logger of each request (see `@Logger`) and logs an access log entry
+ * per response. Entries of a request carry its `requestId` (and `traceId`, if traced).
+ * Access log entries are logged as `info`, `warn` for client errors and `error` for server errors.
+ * Server errors and unexpected errors are logged with their error.
+ *
+ * The service has priority `1000`, so its logger is set before other http services parse the request.
+ *
+ * @example
+ * createLoggingService({ logger: new HTTPConsoleLogger("debug") });
+ *
+ * class Handlers {
+ *     \@GET("/users")
+ *     list(@Logger logger: HTTPLogger) {
+ *         logger.debug("Listing users");
+ *     }
+ * }
+ * @param options.logger Defaults to a `HTTPConsoleLogger`
+ * @param options.accessLog Log an entry per response. Defaults to `true`
+ */
+export function createLoggingService(options: { logger?: HTTPLogger; accessLog?: boolean } = {}) {
+    const logger = options.logger ?? new HTTPConsoleLogger();
+
+    const getLogger = (request: HTTPNormalizedRequest) =>
+        request.logger ??
+        childLogger(logger, {
+            requestId: request.id,
+            ...(request.trace && { traceId: request.trace.traceId }),
+        });
+
+    @HTTP({ priority: 1000 })
+    class HTTPLoggingService {
+        @Middleware
+        setLogger(request: HTTPNormalizedRequest): Partial<HTTPNormalizedRequest> {
+            return { logger: getLogger(request) };
+        }
+
+        @OnError
+        logError(error: unknown, request: HTTPNormalizedRequest) {
+            if (error instanceof HTTPError && (error.response.status ?? 500) < 500) return;
+
+            getLogger(request).error(error instanceof Error ? error.message : String(error), {
+                error:
+                    error instanceof Error
+                        ? { name: error.name, message: error.message, stack: error.stack }
+                        : error,
+            });
+        }
+
+        @OnResponse
+        logResponse(
+            request: HTTPNormalizedRequest,
+            response: HTTPNormalizedResponse,
+            info: HTTPResponseInfo
+        ) {
+            if (options.accessLog === false) return;
+
+            const status = response.status ?? 200;
+            const level = status >= 500 ? "error" : status >= 400 ? "warn" : "info";
+            const handler =
+                info.route && `${info.route.service.constructor.name}.${String(info.route.field.field)}`;
+
+            getLogger(request)[level](`${request.method} ${request.path} ${status}`, {
+                method: request.method,
+                path: request.path,
+                ...(handler && { handler }),
+                status,
+                duration: Math.round(info.duration * 1000) / 1000,
+            });
+        }
+    }
+
+    return HTTPLoggingService;
+}
@@ -0,0 +1,48 @@
+import { HTTP, Middleware, Refine } from "../decorators";
+import { commitSession, loadSession } from "../session";
+import type { HTTPNormalizedRequest, HTTPNormalizedResponse, HTTPSessionOptions } from "../types";
+
+/**
+ * Creates the http service, that loads the session of each request from the session cookie
+ * and issues the `Set-Cookie` header when the session changes (see `commitSession`).
+ * The session is loaded in the parse phase, so `@SessionProvider`s can authenticate with it.
+ *
+ * @example
+ * createSessionService({ secrets: [process.env.SESSION_SECRET], store: new HTTPMemorySessionStore() });
+ *
+ * class Handlers {
+ *     \@POST("/login")
+ *     login(@Session session: HTTPSessionHandle<{ userId?: string }>) {
+ *         session.regenerate();
+ *         session.set("userId", "1");
+ *     }
+ * }
+ */
+export function createSessionService(options: HTTPSessionOptions) {
+    if (!options.secrets.length) throw new Error("At least one session secret is required");
+    if (options.store && options.encrypt) throw new Error("Only sessions without a store can be encrypted");
+
+    @HTTP()
+    class HTTPSessionService {
+        @Middleware
+        async loadSession(request: HTTPNormalizedRequest): Promise<Partial<HTTPNormalizedRequest>> {
+            const handle = await loadSession(request, options);
+            return { session: handle, sessionHandle: handle };
+        }
+
+        @Refine
+        async commitSession(
+            request: HTTPNormalizedRequest,
+            response: HTTPNormalizedResponse
+        ): Promise<HTTPNormalizedResponse> {
+            if (!request.sessionHandle) return response;
+
+            const cookie = await commitSession(request.sessionHandle, options);
+            if (!cookie) return response;
+
+            return { ...response, cookies: [...(response.cookies ?? []), cookie] };
+        }
+    }
+
+    return HTTPSessionService;
+}
@@ -0,0 +1,243 @@
+import { createReadStream, type Stats } from "node:fs";
+import { readdir, stat } from "node:fs/promises";
+import { extname, join, resolve, sep } from "node:path";
+import { Shadow, type ServiceCtr } from "../../../njses";
+import { checkPreconditions, toNotModifiedResponse } from "../cache";
+import {
+    HTTPBadRequestError,
+    HTTPForbiddenError,
+    HTTPNotFoundError,
+    HTTPRangeNotSatisfiableError,
+} from "../errors";
+import { joinPaths } from "../routes";
+import type { HTTPNormalizedRequest, HTTPNormalizedResponse, HTTPStaticOptions } from "../types";
+
+const CONTENT_TYPES: Record<string, string> = {
+    ".html": "text/html; charset=utf-8",
+    ".htm": "text/html; charset=utf-8",
+    ".css": "text/css; charset=utf-8",
+    ".js": "text/javascript; charset=utf-8",
+    ".mjs": "text/javascript; charset=utf-8",
+    ".json": "application/json",
+    ".map": "application/json",
+    ".webmanifest": "application/manifest+json",
+    ".txt": "text/plain; charset=utf-8",
+    ".md": "text/markdown; charset=utf-8",
+    ".csv": "text/csv; charset=utf-8",
+    ".xml": "application/xml",
+    ".svg": "image/svg+xml",
+    ".png": "image/png",
+    ".jpg": "image/jpeg",
+    ".jpeg": "image/jpeg",
+    ".gif": "image/gif",
+    ".webp": "image/webp",
+    ".avif": "image/avif",
+    ".ico": "image/x-icon",
+    ".woff": "font/woff",
+    ".woff2": "font/woff2",
+    ".ttf": "font/ttf",
+    ".otf": "font/otf",
+    ".wasm": "application/wasm",
+    ".pdf": "application/pdf",
+    ".zip": "application/zip",
+    ".mp3": "audio/mpeg",
+    ".wav": "audio/wav",
+    ".ogg": "audio/ogg",
+    ".mp4": "video/mp4",
+    ".webm": "video/webm",
+};
+
+function escapeHTML(value: string): string {
+    return value.replace(/[&<>"']/g, (c) => `&#${c.charCodeAt(0)};`);
+}
+
+function getContentType(file: string, options: HTTPStaticOptions): string {
+    const extension = extname(file).toLowerCase();
+    return options.contentTypes?.[extension] ?? CONTENT_TYPES[extension] ?? "application/octet-stream";
+}
+
+/**
+ * Parses a single byte range. Multiple ranges are not supported.
+ * @returns The range, `null` if it is not satisfiable or `undefined` if the header is ignored
+ */
+function parseRange(header: string, size: number): { start: number; end: number } | null | undefined {
+    const match = /^bytes=(\d*)-(\d*)$/.exec(header.trim());
+    if (!match || (!match[1] && !match[2])) return undefined;
+
+    if (!match[1]) {
+        const suffix = Number(match[2]);
+        if (!suffix || !size) return null;
+        return { start: Math.max(0, size - suffix), end: size - 1 };
+    }
+
+    const start = Number(match[1]);
+    const end = match[2] ? Math.min(Number(match[2]), size - 1) : size - 1;
+    if (match[2] && Number(match[2]) < start) return undefined;
+    if (start >= size) return null;
+
+    return { start, end };
+}
+
+/**
+ * `If-Range` allows the range, if the representation is unchanged. Weak ETags never match.
+ */
+function isRangeFresh(request: HTTPNormalizedRequest, etag: string, lastModified: Date): boolean {
+    const ifRange = request.headers.get("If-Range");
+    if (ifRange === null) return true;
+    if (ifRange.startsWith('"')) return ifRange === etag;
+    return Date.parse(ifRange) === Math.floor(lastModified.getTime() / 1000) * 1000;
+}
+
+function getCacheControl(options: HTTPStaticOptions): string {
+    return `public, max-age=${Math.floor(options.maxAge ?? 0)}${options.immutable ? ", immutable" : ""}`;
+}
+
+async function serveFile(
+    request: HTTPNormalizedRequest,
+    file: string,
+    stats: Stats,
+    options: HTTPStaticOptions
+): Promise<HTTPNormalizedResponse> {
+    const etag = `W/"${stats.size.toString(16)}-${Math.floor(stats.mtimeMs).toString(16)}"`;
+    const headers = new Headers({
+        "Content-Type": getContentType(file, options),
+        "Last-Modified": stats.mtime.toUTCString(),
+        ETag: etag,
+        "Accept-Ranges": "bytes",
+        "Cache-Control": getCacheControl(options),
+    });
+
+    if (checkPreconditions(request, { etag, lastModified: stats.mtime }))
+        return await toNotModifiedResponse({ status: 200, headers });
+
+    const rangeHeader = request.headers.get("Range");
+    const range =
+        rangeHeader !== null && isRangeFresh(request, etag, stats.mtime)
+            ? parseRange(rangeHeader, stats.size)
+            : undefined;
+    if (range === null) throw new HTTPRangeNotSatisfiableError(stats.size);
+
+    const head = request.method === "HEAD";
+
+    if (range) {
+        headers.set("Content-Range", `bytes ${range.start}-${range.end}/${stats.size}`);
+        headers.set("Content-Length", String(range.end - range.start + 1));
+        return {
+            status: 206,
+            headers,
+            body: head ? undefined : createReadStream(file, { start: range.start, end: range.end }),
+        };
+    }
+
+    headers.set("Content-Length", String(stats.size));
+    return { status: 200, headers, body: head || !stats.size ? undefined : createReadStream(file) };
+}
+
+async function listDirectory(request: HTTPNormalizedRequest, dir: string, options: HTTPStaticOptions) {
+    const entries = (await readdir(dir, { withFileTypes: true }))
+        .filter((entry) => options.dotfiles === "allow" || !entry.name.startsWith("."))
+        .map((entry) => (entry.isDirectory() ? entry.name + "/" : entry.name))
+        .sort();
+    const title = escapeHTML(request.path);
+    const links = entries.map((name) => {
+        const href = encodeURIComponent(name.replace(/\/$/, "")) + (name.endsWith("/") ? "/" : "");
+        return `<li><a href="${escapeHTML(href)}">${escapeHTML(name)}</a></li>`;
+    });
+
+    return {
+        status: 200,
+        headers: new Headers({ "Content-Type": "text/html; charset=utf-8", "Cache-Control": "no-cache" }),
+        body:
+            `<!DOCTYPE html><html><head><meta charset="utf-8"><title>${title}</title></head>` +
+            `<body><h1>${title}</h1><ul>${request.path !== "/" ? '<li><a href="../">../</a></li>' : ""}` +
+            `${links.join("")}</ul></body></html>`,
+    };
+}
+
+async function statOrNull(path: string): Promise<Stats | null> {
+    try {
+        return await stat(path);
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * Serves the file at the relative path below the root directory. Paths leaving the root directory are rejected.
+ * Supports conditional requests and single byte ranges.
+ * @throws `HTTPNotFoundError` if the file does not exist or is ignored
+ * @throws `HTTPForbiddenError` if the path leaves the root directory or a dotfile is denied
+ * @throws `HTTPRangeNotSatisfiableError` if the range is outside the file
+ */
+export async function serveStatic(
+    request: HTTPNormalizedRequest,
+    rootDir: string,
+    relativePath: string,
+    options: HTTPStaticOptions = {}
+): Promise<HTTPNormalizedResponse> {
+    if (relativePath.includes("\0")) throw new HTTPBadRequestError();
+
+    const root = resolve(rootDir);
+    const segments = relativePath.split(/[\\/]/).filter(Boolean);
+
+    if (segments.includes("..")) throw new HTTPForbiddenError();
+    if (segments.some((segment) => segment.startsWith(".")) && options.dotfiles !== "allow") {
+        if (options.dotfiles === "deny") throw new HTTPForbiddenError();
+        throw new HTTPNotFoundError();
+    }
+
+    const path = resolve(root, ...segments);
+    if (path !== root && !path.startsWith(root + sep)) throw new HTTPForbiddenError();
+
+    const stats = await statOrNull(path);
+    if (!stats) throw new HTTPNotFoundError();
+    if (stats.isFile()) return await serveFile(request, path, stats, options);
+    if (!stats.isDirectory()) throw new HTTPNotFoundError();
+
+    const index = options.index === false ? [] : (options.index ?? ["index.html"]);
+    if (!index.length && !options.listing) throw new HTTPNotFoundError();
+
+    // Relative links of directories require the trailing slash
+    if (!request.path.endsWith("/")) {
+        const search = request.searchParams.toString();
+        return {
+            status: 301,
+            headers: new Headers({ Location: request.path + "/" + (search ? `?${search}` : "") }),
+        };
+    }
+
+    for (const name of index) {
+        const indexStats = await statOrNull(join(path, name));
+        if (indexStats?.isFile()) return await serveFile(request, join(path, name), indexStats, options);
+    }
+
+    if (options.listing) return await listDirectory(request, path, options);
+
+    throw new HTTPNotFoundError();
+}
+
+/**
+ * Serves the files of the root directory below the mount path (with `GET` and `HEAD`), see `serveStatic`.
+ * The responses pass the refine phase like other responses, so CORS and compression apply.
+ * Use it on the handler service or a mounted service. Requires `node:fs`.
+ *
+ * @example
+ * \@Static("/assets", "./public", { maxAge: 3600 })
+ * class Handlers {}
+ * @class_decorator
+ */
+export function Static(mountPath: string, rootDir: string, options: HTTPStaticOptions = {}) {
+    return function (service: ServiceCtr) {
+        let name = "serveStatic";
+        for (let i = 2; name in service.prototype; i++) name = `serveStatic${i}`;
+
+        service.prototype[name] = function (request: HTTPNormalizedRequest) {
+            return serveStatic(request, rootDir, request.params.path ?? "", options);
+        };
+        Shadow.require(service).addField(name, {
+            $http_method: "GET",
+            $http_path: joinPaths(mountPath, "*path"),
+            method: true,
+        });
+    };
+}
@@ -0,0 +1,351 @@
+import type {
+    HTTPNormalizedRequest,
+    HTTPSessionData,
+    HTTPSessionOptions,
+    HTTPSessionStore,
+    HTTPSetCookie,
+} from "./types";
+
+/** One day */
+export const DEFAULT_SESSION_MAX_AGE = 24 * 60 * 60 * 1000;
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+const keys = new Map<string, Promise<CryptoKey>>();
+
+function toBase64URL(bytes: Uint8Array): string {
+    let binary = "";
+    for (const byte of bytes) binary += String.fromCharCode(byte);
+    return btoa(binary).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+function fromBase64URL(value: string): Uint8Array {
+    const binary = atob(value.replace(/-/g, "+").replace(/_/g, "/"));
+    return Uint8Array.from(binary, (c) => c.charCodeAt(0));
+}
+
+function getKey(secret: string, usage: "sign" | "encrypt"): Promise<CryptoKey> {
+    const cacheKey = `${usage}:${secret}`;
+    let key = keys.get(cacheKey);
+    if (key) return key;
+
+    if (usage === "sign") {
+        key = crypto.subtle.importKey(
+            "raw",
+            encoder.encode(secret),
+            { name: "HMAC", hash: "SHA-256" },
+            false,
+            ["sign", "verify"]
+        );
+    } else {
+        key = crypto.subtle
+            .digest("SHA-256", encoder.encode(secret))
+            .then((hash) => crypto.subtle.importKey("raw", hash, "AES-GCM", false, ["encrypt", "decrypt"]));
+    }
+    keys.set(cacheKey, key);
+
+    return key;
+}
+
+/**
+ * @returns `<value>.<signature>` with a HMAC-SHA256 signature
+ */
+export async function signValue(value: string, secret: string): Promise<string> {
+    const signature = await crypto.subtle.sign("HMAC", await getKey(secret, "sign"), encoder.encode(value));
+    return `${value}.${toBase64URL(new Uint8Array(signature))}`;
+}
+
+/**
+ * Verifies a value signed by `signValue` with any of the secrets.
+ * @returns The value and the index of the verifying secret or `null` if the signature is invalid
+ */
+export async function unsignValue(
+    signed: string,
+    secrets: string[]
+): Promise<{ value: string; secretIndex: number } | null> {
+    const index = signed.lastIndexOf(".");
+    if (index === -1) return null;
+
+    const value = signed.slice(0, index);
+    let signature: Uint8Array;
+    try {
+        signature = fromBase64URL(signed.slice(index + 1));
+    } catch {
+        return null;
+    }
+
+    for (let i = 0; i < secrets.length; i++) {
+        const key = await getKey(secrets[i], "sign");
+        if (await crypto.subtle.verify("HMAC", key, signature as BufferSource, encoder.encode(value)))
+            return { value, secretIndex: i };
+    }
+
+    return null;
+}
+
+/**
+ * Encrypts the value with AES-GCM. The key is derived from the secret.
+ */
+export async function encryptValue(value: string, secret: string): Promise<string> {
+    const iv = crypto.getRandomValues(new Uint8Array(12));
+    const encrypted = await crypto.subtle.encrypt(
+        { name: "AES-GCM", iv },
+        await getKey(secret, "encrypt"),
+        encoder.encode(value)
+    );
+
+    const result = new Uint8Array(iv.byteLength + encrypted.byteLength);
+    result.set(iv);
+    result.set(new Uint8Array(encrypted), iv.byteLength);
+
+    return toBase64URL(result);
+}
+
+/**
+ * Decrypts a value encrypted by `encryptValue` with any of the secrets.
+ * @returns The value and the index of the decrypting secret or `null` if the value cannot be decrypted
+ */
+export async function decryptValue(
+    encrypted: string,
+    secrets: string[]
+): Promise<{ value: string; secretIndex: number } | null> {
+    let bytes: Uint8Array;
+    try {
+        bytes = fromBase64URL(encrypted);
+    } catch {
+        return null;
+    }
+    if (bytes.byteLength < 13) return null;
+
+    for (let i = 0; i < secrets.length; i++) {
+        try {
+            const decrypted = await crypto.subtle.decrypt(
+                { name: "AES-GCM", iv: bytes.subarray(0, 12) as BufferSource },
+                await getKey(secrets[i], "encrypt"),
+                bytes.subarray(12) as BufferSource
+            );
+            return { value: decoder.decode(decrypted), secretIndex: i };
+        } catch {
+            // Authentication failed, try the next secret
+        }
+    }
+
+    return null;
+}
+
+function generateSessionId(): string {
+    return toBase64URL(crypto.getRandomValues(new Uint8Array(24)));
+}
+
+/**
+ * The session of a request. Inject it with `@Session`.
+ *
+ * Changes to `data` are detected when the response is refined,
+ * so the data must be JSON serializable.
+ */
+export class HTTPSessionHandle<T extends HTTPSessionData = HTTPSessionData> {
+    private _snapshot: string;
+    private _id: string;
+    private _previousId: string | undefined;
+    private _destroyed = false;
+    private _reissue: boolean;
+    private _isNew: boolean;
+
+    constructor(
+        id: string | undefined,
+        public data: T,
+        /** Whether the secret that verified the cookie is outdated */
+        outdated = false
+    ) {
+        this._isNew = id === undefined;
+        this._id = id ?? generateSessionId();
+        this._snapshot = JSON.stringify(data);
+        this._reissue = outdated;
+    }
+
+    get id(): string {
+        return this._id;
+    }
+
+    /** Whether the session was created by this request */
+    get isNew(): boolean {
+        return this._isNew;
+    }
+
+    get destroyed(): boolean {
+        return this._destroyed;
+    }
+
+    get changed(): boolean {
+        return JSON.stringify(this.data) !== this._snapshot;
+    }
+
+    get<K extends keyof T>(key: K): T[K] | undefined {
+        return this.data[key];
+    }
+
+    set<K extends keyof T>(key: K, value: T[K]) {
+        this.data[key] = value;
+    }
+
+    delete(key: keyof T) {
+        delete this.data[key];
+    }
+
+    /**
+     * Assigns a new session id and keeps the data. Call this after logging in to prevent session fixation.
+     */
+    regenerate() {
+        this._previousId ??= this._id;
+        this._id = generateSessionId();
+        this._destroyed = false;
+    }
+
+    /**
+     * Clears the data and deletes the session cookie
+     */
+    destroy() {
+        this.data = {} as T;
+        this._destroyed = true;
+    }
+
+    /** @internal */
+    get previousId(): string | undefined {
+        return this._previousId;
+    }
+
+    /** @internal */
+    get needsReissue(): boolean {
+        return this._reissue || this._previousId !== undefined;
+    }
+}
+
+/**
+ * Stores sessions in memory. Sessions are lost on restart and not shared between processes.
+ */
+export class HTTPMemorySessionStore implements HTTPSessionStore {
+    private _sessions = new Map<string, { data: HTTPSessionData; expires: number }>();
+
+    get(id: string): HTTPSessionData | undefined {
+        const session = this._sessions.get(id);
+        if (!session) return undefined;
+        if (session.expires <= Date.now()) {
+            this._sessions.delete(id);
+            return undefined;
+        }
+        return structuredClone(session.data);
+    }
+
+    set(id: string, data: HTTPSessionData, maxAge: number) {
+        this._sessions.set(id, { data: structuredClone(data), expires: Date.now() + maxAge });
+    }
+
+    touch(id: string, maxAge: number) {
+        const session = this._sessions.get(id);
+        if (session) session.expires = Date.now() + maxAge;
+    }
+
+    destroy(id: string) {
+        this._sessions.delete(id);
+    }
+
+    /**
+     * Removes expired sessions
+     */
+    prune() {
+        const now = Date.now();
+        for (const [id, session] of this._sessions) {
+            if (session.expires <= now) this._sessions.delete(id);
+        }
+    }
+}
+
+/**
+ * Loads the session from the session cookie. Invalid, expired or missing sessions result in a new session.
+ */
+export async function loadSession(
+    request: HTTPNormalizedRequest,
+    options: HTTPSessionOptions
+): Promise<HTTPSessionHandle> {
+    const cookie = request.cookies[options.name ?? "sid"];
+    if (!cookie) return new HTTPSessionHandle(undefined, {});
+
+    if (options.store) {
+        const unsigned = await unsignValue(cookie, options.secrets);
+        if (!unsigned) return new HTTPSessionHandle(undefined, {});
+
+        const data = await options.store.get(unsigned.value);
+        if (!data) return new HTTPSessionHandle(undefined, {});
+
+        return new HTTPSessionHandle(unsigned.value, data, unsigned.secretIndex > 0);
+    }
+
+    const decoded = options.encrypt
+        ? await decryptValue(cookie, options.secrets)
+        : await unsignValue(cookie, options.secrets);
+    if (!decoded) return new HTTPSessionHandle(undefined, {});
+
+    try {
+        const payload = JSON.parse(
+            options.encrypt ? decoded.value : decoder.decode(fromBase64URL(decoded.value))
+        );
+        if (typeof payload?.e !== "number" || payload.e <= Date.now())
+            return new HTTPSessionHandle(undefined, {});
+        return new HTTPSessionHandle(payload.i, payload.d ?? {}, decoded.secretIndex > 0);
+    } catch {
+        return new HTTPSessionHandle(undefined, {});
+    }
+}
+
+/**
+ * Persists the session and creates the session cookie, if it has to be (re)issued:
+ * when the session changed, was regenerated or destroyed, was verified by an outdated secret
+ * or with every response, if `rolling` is set. New sessions without data are not issued.
+ */
+export async function commitSession(
+    session: HTTPSessionHandle,
+    options: HTTPSessionOptions
+): Promise<HTTPSetCookie | undefined> {
+    const maxAge = options.maxAge ?? DEFAULT_SESSION_MAX_AGE;
+    const cookie = {
+        path: "/",
+        httpOnly: true,
+        sameSite: "Lax" as const,
+        ...options.cookie,
+        name: options.name ?? "sid",
+    };
+
+    if (session.previousId) await options.store?.destroy(session.previousId);
+
+    if (session.destroyed) {
+        await options.store?.destroy(session.id);
+        if (session.isNew) return undefined;
+        return { ...cookie, value: "", expires: new Date(0), maxAge: 0 };
+    }
+
+    if (session.isNew && !session.changed) return undefined;
+    if (!session.changed && !session.needsReissue && !options.rolling) return undefined;
+
+    let value: string;
+
+    if (options.store) {
+        if (session.changed || session.needsReissue)
+            await options.store.set(session.id, session.data, maxAge);
+        else if (options.store.touch) await options.store.touch(session.id, maxAge);
+        else await options.store.set(session.id, session.data, maxAge);
+
+        value = await signValue(session.id, options.secrets[0]);
+    } else {
+        const payload = JSON.stringify({ i: session.id, d: session.data, e: Date.now() + maxAge });
+        value = options.encrypt
+            ? await encryptValue(payload, options.secrets[0])
+            : await signValue(toBase64URL(encoder.encode(payload)), options.secrets[0]);
+    }
+
+    return {
+        ...cookie,
+        value,
+        expires: new Date(Date.now() + maxAge),
+        maxAge: Math.floor(maxAge / 1000),
+    };
+}
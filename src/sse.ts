@@ -0,0 +1,82 @@
+import type { HTTPServerSentEvent } from "./types";
+
+/** 15 seconds */
+export const DEFAULT_SSE_HEARTBEAT = 15_000;
+
+const encoder = new TextEncoder();
+
+function stripNewlines(value: string): string {
+    return value.replace(/[\r\n]/g, "");
+}
+
+/**
+ * Formats an event of the `text/event-stream` format. String events are sent as data.
+ * Non-string data is sent as JSON.
+ */
+export function formatServerSentEvent(event: HTTPServerSentEvent | string): string {
+    if (typeof event === "string") event = { data: event };
+
+    let result = "";
+    if (event.comment !== undefined) {
+        for (const line of event.comment.split(/\r\n|\r|\n/)) result += `: ${line}\n`;
+    }
+    if (event.event !== undefined) result += `event: ${stripNewlines(event.event)}\n`;
+    if (event.id !== undefined) result += `id: ${stripNewlines(event.id)}\n`;
+    if (event.retry !== undefined) result += `retry: ${Math.floor(event.retry)}\n`;
+    if (event.data !== undefined) {
+        const data = typeof event.data === "string" ? event.data : JSON.stringify(event.data);
+        for (const line of data.split(/\r\n|\r|\n/)) result += `data: ${line}\n`;
+    }
+
+    return result + "\n";
+}
+
+/**
+ * Creates a `text/event-stream` body from the events. Heartbeat comments are sent while no event is available,
+ * so proxies keep the connection open. Cancelling the stream returns the iterator, so `finally` blocks of
+ * async generators run when the client disconnects.
+ * @param options.heartbeat Milliseconds between heartbeats. `0` disables them. Defaults to 15 seconds
+ * @param options.retry The reconnection time sent to the client in milliseconds
+ */
+export function createEventStream(
+    events: AsyncIterable<HTTPServerSentEvent | string> | Iterable<HTTPServerSentEvent | string>,
+    options: { heartbeat?: number; retry?: number } = {}
+): ReadableStream<Uint8Array> {
+    const heartbeat = options.heartbeat ?? DEFAULT_SSE_HEARTBEAT;
+    const iterator =
+        Symbol.asyncIterator in events ? events[Symbol.asyncIterator]() : events[Symbol.iterator]();
+    let next: Promise<IteratorResult<HTTPServerSentEvent | string>> | undefined;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+
+    return new ReadableStream<Uint8Array>({
+        start(controller) {
+            if (options.retry !== undefined)
+                controller.enqueue(encoder.encode(formatServerSentEvent({ retry: options.retry })));
+        },
+        async pull(controller) {
+            // A pending event survives heartbeats
+            next ??= Promise.resolve(iterator.next());
+
+            const result = heartbeat
+                ? await Promise.race([
+                      next,
+                      new Promise<null>((resolve) => (timer = setTimeout(() => resolve(null), heartbeat))),
+                  ])
+                : await next;
+            clearTimeout(timer);
+
+            if (result === null) {
+                controller.enqueue(encoder.encode(formatServerSentEvent({ comment: "heartbeat" })));
+                return;
+            }
+
+            next = undefined;
+            if (result.done) controller.close();
+            else controller.enqueue(encoder.encode(formatServerSentEvent(result.value)));
+        },
+        async cancel() {
+            clearTimeout(timer);
+            await iterator.return?.();
+        },
+    });
+}
@@ -0,0 +1,415 @@
+import type { Instance } from "../../njses";
+import type { HTTPModule } from "./module";
+import type {
+    HTTPNormalizedRequest,
+    HTTPNormalizedResponse,
+    HTTPSetCookie,
+    HTTPWebSocketMessage,
+} from "./types";
+import { toHTTPError } from "./errors";
+import { createWebSocketPair, type HTTPMemoryWebSocket } from "./websocket";
+import { matchesMediaType, parseMediaType } from "./content";
+
+export type HTTPTestResponse = {
+    status: number;
+    headers: Headers;
+    /** The response body. JSON bodies are parsed. */
+    body: any;
+    /** The response body as text, if it is a string or bytes */
+    text: string | undefined;
+    /** The cookies set by the response, including `Set-Cookie` headers */
+    cookies: HTTPSetCookie[];
+    /** The request as seen by the handler */
+    request: HTTPNormalizedRequest;
+    /** The response before it would be sent */
+    response: HTTPNormalizedResponse;
+};
+
+type Expectation = (response: HTTPTestResponse) => void;
+
+/**
+ * Parses a `Set-Cookie` header value. Only the attributes relevant for the cookie jar are kept.
+ */
+function parseSetCookie(header: string): HTTPSetCookie {
+    const [pair, ...attributes] = header.split(";");
+    const index = pair.indexOf("=");
+    const cookie: HTTPSetCookie = {
+        name: pair.slice(0, index).trim(),
+        value: decodeURIComponent(pair.slice(index + 1).trim()),
+    };
+
+    for (const attribute of attributes) {
+        const [name, value = ""] = attribute.split("=").map((s) => s.trim());
+        switch (name.toLowerCase()) {
+            case "expires":
+                cookie.expires = new Date(value);
+                break;
+            case "max-age":
+                cookie.maxAge = Number(value);
+                break;
+            case "path":
+                cookie.path = value;
+                break;
+        }
+    }
+
+    return cookie;
+}
+
+function isDeepEqual(a: any, b: any): boolean {
+    if (Object.is(a, b)) return true;
+    if (typeof a !== "object" || typeof b !== "object" || a === null || b === null) return false;
+    if (Array.isArray(a) !== Array.isArray(b)) return false;
+
+    const keys = Object.keys(a);
+    if (keys.length !== Object.keys(b).length) return false;
+    return keys.every((key) => isDeepEqual(a[key], b[key]));
+}
+
+function format(value: unknown): string {
+    return typeof value === "string" ? `"${value}"` : JSON.stringify(value);
+}
+
+function toText(body: unknown): string | undefined {
+    if (typeof body === "string") return body;
+    if (body instanceof Uint8Array) return new TextDecoder().decode(body);
+    return undefined;
+}
+
+/**
+ * A request of the `HTTPTestClient`. Await it to dispatch it.
+ *
+ * @example
+ * await client.post("/users").set("Authorization", "Bearer token").send({ name: "Max" }).expect(201);
+ */
+export class HTTPTestRequest implements PromiseLike<HTTPTestResponse> {
+    private _headers = new Headers();
+    private _searchParams: URLSearchParams;
+    private _path: string;
+    private _cookies: Record<string, string> = {};
+    private _body: any;
+    private _signal: AbortSignal | undefined;
+    private _expectations: Expectation[] = [];
+    private _result: Promise<HTTPTestResponse> | undefined;
+
+    constructor(
+        private _client: HTTPTestClient,
+        private _method: string,
+        path: string
+    ) {
+        const url = new URL(path, "http://localhost");
+        this._path = url.pathname;
+        this._searchParams = url.searchParams;
+    }
+
+    /**
+     * Sets request headers
+     */
+    set(name: string, value: string): this;
+    set(headers: Record<string, string>): this;
+    set(name: string | Record<string, string>, value?: string): this {
+        if (typeof name === "string") this._headers.set(name, value!);
+        else for (const [key, v] of Object.entries(name)) this._headers.set(key, v);
+        return this;
+    }
+
+    /**
+     * Appends search params. Arrays are appended as repeated keys.
+     */
+    query(params: Record<string, string | number | boolean | (string | number | boolean)[]>): this {
+        for (const [key, value] of Object.entries(params)) {
+            for (const v of Array.isArray(value) ? value : [value]) this._searchParams.append(key, String(v));
+        }
+        return this;
+    }
+
+    /**
+     * Sets a cookie for this request only. Overrides the cookie of the client's jar.
+     */
+    cookie(name: string, value: string): this {
+        this._cookies[name] = value;
+        return this;
+    }
+
+    /**
+     * Sets the request body. Strings and bytes are received as raw bodies and parsed by the content parsers,
+     * any other value is passed to the handler as it is.
+     * Sets the `Content-Type` to `text/plain` or `application/json` respectively, if not set.
+     */
+    send(body: any): this {
+        this._body = body;
+        if (!this._headers.has("Content-Type") && !(body instanceof Uint8Array)) {
+            this._headers.set("Content-Type", typeof body === "string" ? "text/plain" : "application/json");
+        }
+        return this;
+    }
+
+    /**
+     * Sets the signal of the request. Abort it to simulate a client disconnect.
+     */
+    signal(signal: AbortSignal): this {
+        this._signal = signal;
+        return this;
+    }
+
+    /**
+     * Asserts the status and optionally the body, which is compared deeply
+     */
+    expect(status: number, body?: any): this;
+    /**
+     * Asserts a response header
+     */
+    expect(header: string, value: string | RegExp): this;
+    /**
+     * Asserts with a custom function, that throws if the assertion fails
+     */
+    expect(assert: Expectation): this;
+    expect(arg: number | string | Expectation, value?: any): this {
+        const hasValue = arguments.length > 1;
+
+        if (typeof arg === "function") this._expectations.push(arg);
+        else if (typeof arg === "number") {
+            this._expectations.push((res) => {
+                if (res.status !== arg) throw new Error(`Expected status ${arg}, got ${res.status}`);
+                if (hasValue && !isDeepEqual(res.body, value))
+                    throw new Error(`Expected body ${format(value)}, got ${format(res.body)}`);
+            });
+        } else {
+            this._expectations.push((res) => {
+                const actual = res.headers.get(arg);
+                const ok =
+                    actual !== null && (value instanceof RegExp ? value.test(actual) : actual === value);
+                if (!ok)
+                    throw new Error(
+                        `Expected header "${arg}" to match ${format(String(value))}, got ${format(actual)}`
+                    );
+            });
+        }
+
+        return this;
+    }
+
+    /**
+     * Upgrades the request to an in-memory WebSocket connection with a `@WebSocket` service
+     * @throws The `HTTPError` of the response, if the upgrade is rejected
+     */
+    async upgrade(): Promise<HTTPTestWebSocket> {
+        this._headers.set("Upgrade", "websocket");
+        this._headers.set("Connection", "Upgrade");
+        return await this._client.upgrade(this._createRequest());
+    }
+
+    private _createRequest(): HTTPNormalizedRequest {
+        const cookies = { ...this._client.cookies, ...this._cookies };
+        const headers = new Headers(this._headers);
+        if (Object.keys(cookies).length && !headers.has("Cookie")) {
+            headers.set(
+                "Cookie",
+                Object.entries(cookies)
+                    .map(([name, value]) => `${name}=${encodeURIComponent(value)}`)
+                    .join("; ")
+            );
+        }
+
+        return {
+            originalRequest: { method: this._method, path: this._path, headers, body: this._body },
+            method: this._method,
+            path: this._path,
+            params: {},
+            searchParams: this._searchParams,
+            headers,
+            cookies,
+            body: this._body,
+            signal: this._signal,
+        };
+    }
+
+    private async _run(): Promise<HTTPTestResponse> {
+        const result = await this._client.dispatch(this._createRequest());
+
+        for (const expectation of this._expectations) expectation(result);
+
+        return result;
+    }
+
+    then<R1 = HTTPTestResponse, R2 = never>(
+        onfulfilled?: ((value: HTTPTestResponse) => R1 | PromiseLike<R1>) | null,
+        onrejected?: ((reason: any) => R2 | PromiseLike<R2>) | null
+    ): Promise<R1 | R2> {
+        this._result ??= this._run();
+        return this._result.then(onfulfilled, onrejected);
+    }
+}
+
+/**
+ * The client end of an in-memory WebSocket connection of the `HTTPTestClient`
+ */
+export class HTTPTestWebSocket {
+    /** All received messages */
+    readonly messages: HTTPWebSocketMessage[] = [];
+    /** Resolves when the connection is closed, by either side */
+    readonly closed: Promise<{ code: number; reason: string }>;
+    private _received = 0;
+    private _waiting: ((message: HTTPWebSocketMessage) => void)[] = [];
+
+    constructor(private _socket: HTTPMemoryWebSocket) {
+        this.closed = new Promise((resolve) => {
+            _socket.listener = {
+                message: (message) => {
+                    this.messages.push(message);
+                    this._waiting.shift()?.(message);
+                },
+                close: (code, reason) => resolve({ code, reason }),
+            };
+        });
+    }
+
+    send(message: HTTPWebSocketMessage) {
+        this._socket.send(message);
+    }
+
+    close(code?: number, reason?: string) {
+        this._socket.close(code, reason);
+    }
+
+    /**
+     * @returns The next message, that was not returned yet
+     */
+    next(): Promise<HTTPWebSocketMessage> {
+        const index = this._received++;
+        if (index < this.messages.length) return Promise.resolve(this.messages[index]);
+        return new Promise((resolve) => this._waiting.push(resolve));
+    }
+}
+
+/**
+ * Dispatches requests to a handler service in memory, without a server and without adapters.
+ * The receive and send phases are skipped, all other phases run as for real requests (see `HTTPModule.incoming`).
+ *
+ * Cookies set by responses are stored in a cookie jar and sent with subsequent requests.
+ */
+export class HTTPTestClient {
+    /** The cookie jar */
+    cookies: Record<string, string> = {};
+
+    constructor(
+        private _httpModule: HTTPModule,
+        private _handlerService: Instance
+    ) {}
+
+    request(method: string, path: string): HTTPTestRequest {
+        return new HTTPTestRequest(this, method.toUpperCase(), path);
+    }
+
+    get(path: string) {
+        return this.request("GET", path);
+    }
+
+    head(path: string) {
+        return this.request("HEAD", path);
+    }
+
+    post(path: string) {
+        return this.request("POST", path);
+    }
+
+    put(path: string) {
+        return this.request("PUT", path);
+    }
+
+    patch(path: string) {
+        return this.request("PATCH", path);
+    }
+
+    delete(path: string) {
+        return this.request("DELETE", path);
+    }
+
+    options(path: string) {
+        return this.request("OPTIONS", path);
+    }
+
+    clearCookies() {
+        this.cookies = {};
+    }
+
+    /**
+     * Shortcut for `get(path).upgrade()`
+     */
+    websocket(path: string): Promise<HTTPTestWebSocket> {
+        return this.get(path).upgrade();
+    }
+
+    /**
+     * Upgrades the request to an in-memory WebSocket connection
+     * @throws The `HTTPError` of the response, if the upgrade is rejected
+     */
+    async upgrade(request: HTTPNormalizedRequest): Promise<HTTPTestWebSocket> {
+        const upgrade = await this._httpModule.dispatchUpgrade(request);
+        if (!upgrade.accept) throw toHTTPError(upgrade.response);
+
+        const [client, server] = createWebSocketPair(upgrade.request);
+        const socket = new HTTPTestWebSocket(client);
+        try {
+            server.listener = await upgrade.accept(server);
+        } catch (err) {
+            server.close(1011, "Internal Error");
+            throw err;
+        }
+
+        return socket;
+    }
+
+    /**
+     * Dispatches the request and updates the cookie jar
+     */
+    async dispatch(request: HTTPNormalizedRequest): Promise<HTTPTestResponse> {
+        const result = await this._httpModule.dispatch(this._handlerService, request);
+        const { response } = result;
+        const headers = new Headers(response.headers);
+
+        const cookies = [...headers.getSetCookie().map(parseSetCookie), ...(response.cookies ?? [])];
+        for (const cookie of cookies) {
+            const expired =
+                (cookie.maxAge !== undefined && cookie.maxAge <= 0) ||
+                (cookie.expires && cookie.expires.getTime() <= Date.now());
+            if (expired) delete this.cookies[cookie.name];
+            else this.cookies[cookie.name] = cookie.value;
+        }
+
+        const text = toText(response.body);
+        const mediaType = parseMediaType(headers.get("Content-Type") ?? "");
+        const isJSON = ["application/json", "application/*+json"].some((t) => matchesMediaType(mediaType, t));
+        let body = response.body;
+        if (isJSON && text !== undefined) {
+            try {
+                body = JSON.parse(text);
+            } catch {
+                body = text;
+            }
+        }
+
+        return {
+            status: response.status ?? 200,
+            headers,
+            body,
+            text,
+            cookies,
+            request: result.request,
+            response,
+        };
+    }
+}
+
+/**
+ * Takes the http module and the handler service like the adapters do, as njses has no app object
+ * and the handler service does not reference the http module.
+ *
+ * @example
+ * const client = createTestClient(httpModule, handlerService);
+ * await client.post("/login").send({ user: "max" }).expect(204);
+ * const res = await client.get("/me").expect(200); // Sends the session cookie
+ */
+export function createTestClient(httpModule: HTTPModule, handlerService: Instance): HTTPTestClient {
+    return new HTTPTestClient(httpModule, handlerService);
+}
@@ -1,36 +1,134 @@
+import type { HTTPSessionHandle } from "./session";
+
 /*
-Extend NJSES `ServiceShadow` with Lambda specific fields 
+Extend NJSES `ServiceShadow` with HTTP specific fields 
 */
 declare module "../../njses" {
     interface CustomShadowContext {
         http_cors: HTTPCORSOptions;
         http_options: HttpServiceOptions;
         http_matcher: HTTPMatcherCheck;
+        http_tags: string[];
+        http_security: HTTPOpenAPISecurity[];
+        http_auth: HTTPAuthRequirement;
+        http_rate_limit: HTTPRateLimitOptions;
+        http_cache: HTTPCacheOptions;
+        http_timeout: HTTPTimeoutOptions;
+        /** The service class, that mounts this service (see `HttpServiceOptions.mount`) */
+        http_parent: HTTPServiceClass;
+        /** The path of a WebSocket service */
+        http_websocket: string;
     }
 
     interface CustomFieldShadow {
         http_method: string;
         http_path: string;
         http_matcher: HTTPMatcherCheck;
+        http_cors: HTTPCORSOptions;
+        http_catch: HTTPErrorClass;
+        /** Media types of content parsers and serializers */
+        http_media_types: string[];
+        /** Body size limit of content parsers in bytes */
+        http_body_limit: number;
+        http_summary: string;
+        http_description: string;
+        http_tags: string[];
+        http_responses: HTTPOpenAPIResponse[];
+        http_security: HTTPOpenAPISecurity[];
+        http_auth: HTTPAuthRequirement;
+        /** `WWW-Authenticate` challenges of authenticators */
+        http_challenges: string[];
+        http_rate_limit: HTTPRateLimitOptions;
+        http_cache: HTTPCacheOptions;
+        http_timeout: HTTPTimeoutOptions;
+        http_deprecated: HTTPDeprecation;
     }
 
     interface CustomShadowParam {
-        http_param_type: "body" | "req" | "search_params" | "headers" | "context" | "session" | "cookie";
+        http_param_type:
+            | "body"
+            | "req"
+            | "search_params"
+            | "query"
+            | "headers"
+            | "context"
+            | "session"
+            | "cookie"
+            | "param"
+            | "principal"
+            | "last_event_id"
+            | "logger"
+            | "signal";
+        /** The name of the path parameter, when `http_param_type` is `param` */
+        http_param_name: string;
+        /** Validates the injected value */
+        http_schema: HTTPSchema;
+        /** Coerce query values, when `http_param_type` is `query` */
+        http_coerce: boolean;
     }
 }
 
 export interface HttpServiceOptions {
     priority?: number;
+    /**
+     * Include the messages of unexpected errors in the responses of matched requests.
+     * Defaults to `true` unless `NODE_ENV` is `production`
+     */
+    exposeErrors?: boolean;
+    /** Respond with RFC 9457 problem details (`application/problem+json`) to errors of matched requests */
+    problemDetails?: boolean;
+    /** Serves the OpenAPI document of the handler service at the given path */
+    openapi?: HTTPOpenAPIOptions & { path: string };
+    /**
+     * Prepended to the paths of the handlers of the service and the services it mounts.
+     * A service with a prefix only takes part in the phases of requests below its prefix,
+     * unless it has a `@HTTPMatcher`
+     */
+    prefix?: string;
+    /**
+     * The API version of the handlers of the service and the services it mounts (e.g. `"2"` or `"2.1"`).
+     * See `HTTPModule.incoming` for the version selection
+     */
+    version?: string;
+    /** Marks the handlers of the service and the services it mounts as deprecated */
+    deprecated?: boolean | HTTPDeprecation;
+    /**
+     * Http services, whose handlers are served below the prefix of this service.
+     * Mounted services inherit the version and deprecation and may mount services themselves.
+     */
+    mount?: HTTPServiceClass[];
 }
 
-/* 
-ev: APIGatewayProxyEvent, ctx: Context, rctx: ProtectedReqCtx 
-*/
+export type HTTPServiceClass = abstract new (...args: any[]) => unknown;
+
+/**
+ * Sets the `Deprecation` (RFC 9745), `Sunset` (RFC 8594) and `Link` headers of responses
+ */
+export type HTTPDeprecation = {
+    /** When the handler was deprecated. Defaults to when the deprecation is declared */
+    date?: Date;
+    /** When the handler will stop responding */
+    sunset?: Date;
+    /** Documentation of the deprecation, e.g. a migration guide */
+    link?: string;
+};
+
+export type HTTPErrorClass = abstract new (...args: any[]) => unknown;
+
+/**
+ * An exact origin, a glob (`"https://*.example.com"`), a `RegExp` or a predicate
+ */
+export type HTTPCORSOrigin = string | RegExp | ((origin: string) => boolean);
+
 export interface HTTPCORSOptions {
-    /** Allow origins */
-    origins?: string[] | "*";
+    /** Allowed origins. Defaults to `"*"` */
+    origins?: HTTPCORSOrigin | HTTPCORSOrigin[];
+    /** Allowed methods for preflight requests. Defaults to the methods registered for the path */
+    allowMethods?: string[];
+    /** Allowed request headers. Defaults to the headers requested by the preflight request */
     allowHeaders?: string[];
     exposeHeaders?: string[];
+    /** Preflight cache duration in seconds. Defaults to 600 */
     maxAge?: number;
     allowCredentials?: boolean;
 }
@@ -44,6 +142,8 @@ export type HTTPSetCookie = {
     secure?: boolean;
     httpOnly?: boolean;
     sameSite?: "Strict" | "Lax" | "None";
+    /** In seconds */
+    maxAge?: number;
 };
 
 /**
@@ -71,26 +171,449 @@ export interface HTTPRequestContext {}
  */
 export interface HTTPSession {}
 
+/**
+ * Persists session data by session id. Implementations must drop sessions after `maxAge`.
+ */
+export interface HTTPSessionStore {
+    get(id: string): HTTPSessionData | undefined | Promise<HTTPSessionData | undefined>;
+    /** @param maxAge In milliseconds */
+    set(id: string, data: HTTPSessionData, maxAge: number): void | Promise<void>;
+    destroy(id: string): void | Promise<void>;
+    /** Extends the expiry without changing the data. Falls back to `set`, if not implemented */
+    touch?(id: string, maxAge: number): void | Promise<void>;
+}
+
+/**
+ * The authenticated user or client
+ *
+ * Use module augmentation to extend this
+ */
+export interface HTTPPrincipal {
+    id?: string;
+    roles?: string[];
+}
+
+/**
+ * @returns `false` to deny the request
+ */
+export type HTTPGuard = (request: HTTPNormalizedRequest) => boolean | Promise<boolean>;
+
+export type HTTPAuthRequirement = {
+    authenticated?: boolean;
+    /** Any of the roles is required */
+    roles?: string[];
+    guards?: HTTPGuard[];
+};
+
+export type HTTPAuthStrategy = {
+    /** The `WWW-Authenticate` challenge sent with _401 Unauthorized_ responses, e.g. `Bearer realm="api"` */
+    challenge?: string;
+    /**
+     * @returns The principal or nothing if the request has no credentials for this strategy
+     * @throws `HTTPUnauthorizedError` if the credentials are invalid
+     */
+    authenticate(
+        request: HTTPNormalizedRequest
+    ): HTTPPrincipal | null | undefined | Promise<HTTPPrincipal | null | undefined>;
+};
+
+/**
+ * A HMAC secret or a public JSON Web Key. Keys with a `kid` are only used for tokens with that `kid`.
+ */
+export type HTTPJWTKey = string | (JsonWebKey & { kid?: string });
+
+export type HTTPJWTOptions = {
+    keys: HTTPJWTKey[];
+    /** Allowed algorithms. Defaults to all supported: HS256/384/512, RS256/384/512 and ES256/384/512 */
+    algorithms?: string[];
+    issuer?: string | string[];
+    audience?: string | string[];
+    /** In seconds. Defaults to 0 */
+    clockTolerance?: number;
+};
+
+export type HTTPRateLimitAlgorithm = "fixed-window" | "token-bucket";
+
+export type HTTPRateLimitOptions = {
+    /** In milliseconds */
+    window: number;
+    /** Requests per window. The bucket size for the token bucket algorithm */
+    max: number;
+    /**
+     * Separates the counters of this limit from other limits in the store, must be stable across processes.
+     * Defaults to the service name or, on handlers, the method and path of the route
+     */
+    id?: string;
+    /** Identifies the client. Defaults to the principal id, the IP address or `"anonymous"` */
+    key?: (request: HTTPNormalizedRequest) => string | Promise<string>;
+    /**
+     * `fixed-window` allows `max` requests per window.
+     * `token-bucket` allows bursts of `max` requests and refills `max` tokens per window evenly.
+     * Defaults to `fixed-window`
+     */
+    algorithm?: HTTPRateLimitAlgorithm;
+    /** Defaults to a shared in-memory store */
+    store?: HTTPRateLimitStore;
+};
+
+export type HTTPRateLimitResult = {
+    allowed: boolean;
+    limit: number;
+    remaining: number;
+    /** Milliseconds until the quota is restored, or until the next request is allowed if it is exhausted */
+    reset: number;
+};
+
+/**
+ * Counts requests per key. Implementations must apply the algorithm atomically, if shared between processes.
+ */
+export interface HTTPRateLimitStore {
+    consume(
+        key: string,
+        limit: { window: number; max: number; algorithm: HTTPRateLimitAlgorithm }
+    ): HTTPRateLimitResult | Promise<HTTPRateLimitResult>;
+}
+
+export type HTTPTimeoutOptions = {
+    /** In milliseconds */
+    timeout: number;
+    /** The status of the response, if the handler times out. Defaults to 503 */
+    status?: 503 | 504;
+};
+
+/**
+ * The directives of the `Cache-Control` header. A string is used as header value as is.
+ * Durations are in seconds.
+ */
+export type HTTPCacheOptions =
+    | string
+    | {
+          /** Allows shared caches (e.g. CDNs) to store responses of authenticated requests */
+          public?: boolean;
+          /** Only the client may store the response */
+          private?: boolean;
+          /** Caches must revalidate the response before using it */
+          noCache?: boolean;
+          /** The response must not be stored */
+          noStore?: boolean;
+          noTransform?: boolean;
+          mustRevalidate?: boolean;
+          proxyRevalidate?: boolean;
+          immutable?: boolean;
+          maxAge?: number;
+          sMaxAge?: number;
+          staleWhileRevalidate?: number;
+          staleIfError?: number;
+      };
+
+/**
+ * Validators of the current representation of a resource (see `checkPreconditions`)
+ */
+export type HTTPValidators = {
+    etag?: string;
+    lastModified?: Date;
+};
+
+export type HTTPCompressionEncoding = "br" | "gzip" | "deflate";
+
+export type HTTPCompressionOptions = {
+    /** Minimum body size in bytes. Defaults to 1 KiB */
+    threshold?: number;
+    /** Supported encodings in order of preference. Defaults to `["br", "gzip", "deflate"]` */
+    encodings?: HTTPCompressionEncoding[];
+    /** Gzip and deflate level (0-9). Defaults to zlib's default */
+    level?: number;
+    /** Brotli quality (0-11). Defaults to 4 */
+    quality?: number;
+    /** Decides whether a content type is compressed. Defaults to text, JSON, JavaScript, XML and SVG types */
+    filter?: (contentType: string) => boolean;
+};
+
+export type HTTPResourceOperation = "list" | "get" | "create" | "update" | "patch" | "delete";
+
+export type HTTPRepositoryQuery = {
+    /** Entities must equal any of the values of each key */
+    filter: Record<string, string[]>;
+    sort: { key: string; order: "asc" | "desc" }[];
+    offset: number;
+    limit: number;
+};
+
+export type HTTPRepositoryPage<T> = {
+    items: T[];
+    /** The number of entities matching the filter */
+    total: number;
+};
+
+/**
+ * The data source of a `@Resource`. Ids are the path parameters as strings.
+ * Methods return `undefined` (or `false` for `delete`) for missing entities
+ * and throw `RepositoryConflictError` for conflicting ones.
+ */
+export interface HTTPRepository<T extends Record<string, any> = Record<string, any>> {
+    list(query: HTTPRepositoryQuery): HTTPRepositoryPage<T> | Promise<HTTPRepositoryPage<T>>;
+    get(id: string): T | undefined | Promise<T | undefined>;
+    create(data: Partial<T>): T | Promise<T>;
+    /** Replaces the entity */
+    update(id: string, data: Partial<T>): T | undefined | Promise<T | undefined>;
+    /** Merges the data into the entity */
+    patch(id: string, data: Partial<T>): T | undefined | Promise<T | undefined>;
+    delete(id: string): boolean | Promise<boolean>;
+}
+
+export type HTTPResourceOptions = {
+    /** The id property of the entities, used for the `Location` of created entities. Defaults to `"id"` */
+    idKey?: string;
+    /** The operations to generate handlers for. Defaults to all */
+    operations?: HTTPResourceOperation[];
+    /** Validate the bodies of `create`, `update` and `patch` */
+    schemas?: { create?: HTTPSchema; update?: HTTPSchema; patch?: HTTPSchema };
+    /** Query keys, that filter the list. Defaults to any key */
+    filterable?: string[];
+    /** Keys the list can be sorted by. Defaults to any key */
+    sortable?: string[];
+    /** Defaults to 20 */
+    defaultLimit?: number;
+    /** Defaults to 100 */
+    maxLimit?: number;
+};
+
+export type HTTPStaticOptions = {
+    /** Files served for directories. `false` disables them. Defaults to `["index.html"]` */
+    index?: string[] | false;
+    /** Lists the files of directories without index file. Defaults to `false` */
+    listing?: boolean;
+    /**
+     * Files and directories starting with a dot are `"ignore"`d (404), `"deny"`ed (403) or `"allow"`ed.
+     * Defaults to `"ignore"`
+     */
+    dotfiles?: "ignore" | "deny" | "allow";
+    /** The `max-age` of the `Cache-Control` header in seconds. Defaults to 0 */
+    maxAge?: number;
+    /** Adds `immutable` to the `Cache-Control` header, e.g. for fingerprinted assets */
+    immutable?: boolean;
+    /** Additional or overriding content types by file extension (`{ ".map": "application/json" }`) */
+    contentTypes?: Record<string, string>;
+};
+
+export type HTTPSessionData = Record<string, any>;
+
+export type HTTPSessionOptions = {
+    /**
+     * The first secret signs (or encrypts) new cookies, all secrets verify (or decrypt) received cookies.
+     * Prepend a new secret to rotate keys, cookies of older secrets are reissued.
+     */
+    secrets: string[];
+    /** The cookie name. Defaults to `"sid"` */
+    name?: string;
+    /** Stores the session data server side. Without a store, the data is kept in the cookie */
+    store?: HTTPSessionStore;
+    /** Encrypts the cookie instead of only signing it. Only for sessions without a store */
+    encrypt?: boolean;
+    /** In milliseconds. Defaults to one day */
+    maxAge?: number;
+    /** Reissues the cookie with every response, so the session expires `maxAge` after the last request */
+    rolling?: boolean;
+    /** Defaults to `{ path: "/", httpOnly: true, sameSite: "Lax" }` */
+    cookie?: Omit<HTTPSetCookie, "name" | "value" | "expires" | "maxAge">;
+};
+
 export type HTTPNormalizedRequest = {
     originalRequest: HTTPRequest;
     method: string;
     path: string;
+    /** Path parameters extracted from the matched handler path */
+    params: Record<string, string>;
+    /** The client IP address, if known by the adapter. Proxies are not considered */
+    ip?: string;
     body: any;
     searchParams: URLSearchParams;
     headers: Headers;
     cookies: Record<string, string>;
     context?: HTTPRequestContext;
     session?: HTTPSession;
+    /**
+     * The session of the session cookie (see `createSessionService`).
+     * Kept, if a `@SessionProvider` replaces `session`.
+     */
+    sessionHandle?: HTTPSessionHandle;
+    /** The authenticated principal, see `@Authenticator` */
+    principal?: HTTPPrincipal;
+    /** The request id. Taken from the `X-Request-Id` or `traceparent` header, if sent */
+    id?: string;
+    /** The W3C trace context of the `traceparent` and `tracestate` headers */
+    trace?: HTTPTraceContext;
+    /** The logger of the request. See `createLoggingService` */
+    logger?: HTTPLogger;
+    /**
+     * Aborted when the client disconnects (if the adapter notices it) or the handler times out (see `@Timeout`).
+     * Pass it to downstream calls to cancel them.
+     */
+    signal?: AbortSignal;
+};
+
+export type HTTPTraceContext = {
+    /** 32 hex digits */
+    traceId: string;
+    /** The span id of the caller, 16 hex digits */
+    parentId: string;
+    /** The trace flags. Bit 1 is the sampled flag */
+    flags: number;
+    traceState?: string;
 };
 
+export type HTTPLogLevel = "debug" | "info" | "warn" | "error";
+
+/**
+ * A structured logger. `fields` are logged with the message.
+ */
+export interface HTTPLogger {
+    debug(message: string, fields?: Record<string, unknown>): void;
+    info(message: string, fields?: Record<string, unknown>): void;
+    warn(message: string, fields?: Record<string, unknown>): void;
+    error(message: string, fields?: Record<string, unknown>): void;
+    /** Creates a logger, that adds the fields to every entry */
+    child?(fields: Record<string, unknown>): HTTPLogger;
+}
+
+export type HTTPStreamBody = ReadableStream | AsyncIterable<string | Uint8Array>;
+
+/**
+ * An event of a `text/event-stream` response. Non-string data is sent as JSON
+ */
+export type HTTPServerSentEvent = {
+    data?: any;
+    event?: string;
+    id?: string;
+    /** Reconnection time in milliseconds */
+    retry?: number;
+    comment?: string;
+};
+
+export type HTTPWebSocketMessage = string | Uint8Array;
+
+/**
+ * A WebSocket connection, implemented by the adapters
+ */
+export interface HTTPWebSocket {
+    /** The upgrade request */
+    readonly request: HTTPNormalizedRequest;
+    /** Custom state of the connection */
+    data: Record<string, any>;
+    send(message: HTTPWebSocketMessage): void;
+    close(code?: number, reason?: string): void;
+}
+
+/**
+ * Receives the events of an accepted WebSocket connection. Returned by `HTTPModule.dispatchUpgrade`.
+ */
+export type HTTPWebSocketListener = {
+    message(message: HTTPWebSocketMessage): Promise<void>;
+    close(code: number, reason: string): Promise<void>;
+};
+
+export type HTTPWebSocketUpgrade =
+    | {
+          request: HTTPNormalizedRequest;
+          /** Invokes the `@OnOpen` methods of the WebSocket service */
+          accept(socket: HTTPWebSocket): Promise<HTTPWebSocketListener>;
+          response?: undefined;
+      }
+    | {
+          request: HTTPNormalizedRequest;
+          accept?: undefined;
+          /** The rejection to send instead of upgrading */
+          response: HTTPNormalizedResponse;
+      };
+
 export type HTTPNormalizedResponse = {
     headers?: Headers;
+    /**
+     * Strings and `Uint8Array`s are sent as they are, `ReadableStream`s and async iterables are streamed.
+     * Other values are serialized by the content serializers or the sender
+     */
     body?: any;
     status?: number;
     cookies?: HTTPSetCookie[];
 };
 
 
+export interface HTTPSchemaIssue {
+    readonly message: string;
+    readonly path?: ReadonlyArray<PropertyKey | { readonly key: PropertyKey }>;
+}
+
+export type HTTPSchemaResult<O> =
+    | { readonly value: O; readonly issues?: undefined }
+    | { readonly issues: ReadonlyArray<HTTPSchemaIssue> };
+
+/**
+ * A [Standard Schema](https://standardschema.dev) compatible validator.
+ * Schemas of zod, valibot, arktype and others implement this interface.
+ */
+export interface HTTPSchema<I = unknown, O = I> {
+    readonly "~standard": {
+        readonly version: 1;
+        readonly vendor: string;
+        readonly validate: (value: unknown) => HTTPSchemaResult<O> | Promise<HTTPSchemaResult<O>>;
+        readonly types?: { readonly input: I; readonly output: O };
+    };
+}
+
+/**
+ * The validated type of a schema. Use it to type injected parameters: `@Body(schema) body: HTTPSchemaOutput<typeof schema>`
+ */
+export type HTTPSchemaOutput<S extends HTTPSchema> = S extends HTTPSchema<any, infer O> ? O : never;
+
+export type HTTPValidationIssue = {
+    source: "body" | "query" | "params";
+    /** Dot separated path of the invalid field. Empty for the value itself */
+    path: string;
+    message: string;
+};
+
+/**
+ * RFC 9457 problem details
+ */
+export type HTTPProblemDetails = {
+    type: string;
+    title: string;
+    status: number;
+    detail?: string;
+    instance?: string;
+    [extension: string]: unknown;
+};
+
+export type HTTPJSONSchema = Record<string, any>;
+
+export type HTTPOpenAPIResponse = {
+    status: number | "default";
+    description?: string;
+    /** Defaults to `application/json` */
+    contentType?: string;
+    /** A validation schema or a JSON schema */
+    schema?: HTTPSchema | HTTPJSONSchema;
+};
+
+/**
+ * Maps security scheme names to the required scopes
+ */
+export type HTTPOpenAPISecurity = Record<string, string[]>;
+
+export interface HTTPOpenAPIOptions {
+    info: { title: string; version: string; description?: string };
+    servers?: { url: string; description?: string }[];
+    /** Security schemes referenced by `@Security` */
+    securitySchemes?: Record<string, HTTPJSONSchema>;
+    /**
+     * Converts validation schemas to JSON schemas.
+     * Defaults to Standard JSON Schema (`~standard.jsonSchema`) or a `toJSONSchema` method of the schema
+     */
+    toJSONSchema?: (schema: HTTPSchema) => HTTPJSONSchema | undefined;
+    /** Documents the handlers of the version. Defaults to the latest handlers */
+    version?: string;
+}
+
 export type HTTPMatcherCheck =
     | string
     | RegExp
@@ -1 +1,62 @@
-export {};
+import type { HTTPSetCookie } from "./types";
+
+function decode(value: string): string {
+    try {
+        return decodeURIComponent(value);
+    } catch {
+        return value;
+    }
+}
+
+/**
+ * Parses a `Cookie` header. The first occurrence of a cookie name wins.
+ * @returns An object without prototype, so cookies like `constructor` or `__proto__` are kept as they are
+ */
+export function parseCookies(header: string | null | undefined): Record<string, string> {
+    const cookies: Record<string, string> = Object.create(null);
+    if (!header) return cookies;
+
+    for (const pair of header.split(";")) {
+        const index = pair.indexOf("=");
+        if (index === -1) continue;
+
+        const name = pair.slice(0, index).trim();
+        let value = pair.slice(index + 1).trim();
+        if (value.startsWith('"') && value.endsWith('"')) value = value.slice(1, -1);
+
+        if (name && !(name in cookies)) cookies[name] = decode(value);
+    }
+
+    return cookies;
+}
+
+/**
+ * Serializes a cookie to a `Set-Cookie` header value.
+ */
+export function serializeCookie(cookie: HTTPSetCookie): string {
+    let result = `${cookie.name}=${encodeURIComponent(cookie.value)}`;
+
+    if (cookie.expires) result += `; Expires=${cookie.expires.toUTCString()}`;
+    if (cookie.maxAge !== undefined) result += `; Max-Age=${cookie.maxAge}`;
+    if (cookie.domain) result += `; Domain=${cookie.domain}`;
+    if (cookie.path) result += `; Path=${cookie.path}`;
+    if (cookie.secure) result += "; Secure";
+    if (cookie.httpOnly) result += "; HttpOnly";
+    if (cookie.sameSite) result += `; SameSite=${cookie.sameSite}`;
+
+    return result;
+}
+
+/**
+ * Adds the values to the `Vary` header, if not yet present.
+ */
+export function appendVary(headers: Headers, ...values: string[]) {
+    const vary = (headers.get("Vary") ?? "")
+        .split(",")
+        .map((v) => v.trim())
+        .filter(Boolean);
+    for (const value of values) {
+        if (!vary.some((v) => v.toLowerCase() === value.toLowerCase())) vary.push(value);
+    }
+    headers.set("Vary", vary.join(", "));
+}
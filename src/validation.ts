@@ -0,0 +1,62 @@
+import type { HTTPSchema, HTTPSchemaIssue, HTTPSchemaResult, HTTPValidationIssue } from "./types";
+
+/**
+ * Creates a schema from a hand-written validate function.
+ */
+export function createSchema<O>(
+    validate: (value: unknown) => HTTPSchemaResult<O> | Promise<HTTPSchemaResult<O>>
+): HTTPSchema<unknown, O> {
+    return { "~standard": { version: 1, vendor: "njses-http", validate } };
+}
+
+export function isSchema(value: unknown): value is HTTPSchema {
+    return typeof value === "object" && value !== null && "~standard" in value;
+}
+
+export async function validateSchema<O>(schema: HTTPSchema<unknown, O>, value: unknown) {
+    return await schema["~standard"].validate(value);
+}
+
+function formatIssuePath(path: HTTPSchemaIssue["path"], prefix?: string): string {
+    const keys = (path ?? []).map((segment) => String(typeof segment === "object" ? segment.key : segment));
+    return (prefix ? [prefix, ...keys] : keys).join(".");
+}
+
+/**
+ * @param prefix Prepended to the issue paths, e.g. the name of a path parameter
+ */
+export function toValidationIssues(
+    source: HTTPValidationIssue["source"],
+    issues: ReadonlyArray<HTTPSchemaIssue>,
+    prefix?: string
+): HTTPValidationIssue[] {
+    return issues.map((issue) => ({
+        source,
+        path: formatIssuePath(issue.path, prefix),
+        message: issue.message,
+    }));
+}
+
+function coerceValue(value: string): string | number | boolean {
+    if (value === "true") return true;
+    if (value === "false") return false;
+    // Only numbers that read back the same, so "007" or ids beyond the safe integer range stay strings
+    if (/^-?\d+(\.\d+)?$/.test(value) && String(Number(value)) === value) return Number(value);
+    return value;
+}
+
+/**
+ * Converts search params to an object. Repeated keys and keys ending with `[]` become arrays.
+ * @param coerce Converts `"true"`/`"false"` to booleans and numeric strings to numbers, if no digits are lost
+ */
+export function parseQuery(searchParams: URLSearchParams, coerce = true): Record<string, unknown> {
+    const query: Record<string, unknown> = {};
+
+    for (const key of new Set(searchParams.keys())) {
+        const values = searchParams.getAll(key).map((v) => (coerce ? coerceValue(v) : v));
+        const isArray = key.endsWith("[]");
+        query[isArray ? key.slice(0, -2) : key] = isArray || values.length > 1 ? values : values[0];
+    }
+
+    return query;
+}
@@ -0,0 +1,72 @@
+import type {
+    HTTPNormalizedRequest,
+    HTTPWebSocket,
+    HTTPWebSocketListener,
+    HTTPWebSocketMessage,
+} from "./types";
+
+type Listener = {
+    [K in keyof HTTPWebSocketListener]: (...args: Parameters<HTTPWebSocketListener[K]>) => any;
+};
+
+/**
+ * One end of an in-memory WebSocket connection, see `createWebSocketPair`.
+ * Messages and the close event are delivered asynchronously and in order.
+ */
+export class HTTPMemoryWebSocket implements HTTPWebSocket {
+    data: Record<string, any> = {};
+    /** Receives the messages and the close event sent by the peer */
+    listener: Listener | undefined;
+    peer: HTTPMemoryWebSocket | undefined;
+    private _closed = false;
+    private _queue: Promise<void> = Promise.resolve();
+
+    constructor(readonly request: HTTPNormalizedRequest) {}
+
+    get closed(): boolean {
+        return this._closed;
+    }
+
+    send(message: HTTPWebSocketMessage) {
+        if (this._closed) throw new Error("WebSocket is closed");
+        const peer = this.peer;
+        // Copy binary messages, as they would be copied over the network
+        const copy = typeof message === "string" ? message : message.slice();
+        peer?._deliver((listener) => listener.message(copy));
+    }
+
+    close(code = 1000, reason = "") {
+        if (this._closed) return;
+        this._closed = true;
+        this._deliver((listener) => listener.close(code, reason));
+
+        const peer = this.peer;
+        if (peer && !peer._closed) {
+            peer._closed = true;
+            peer._deliver((listener) => listener.close(code, reason));
+        }
+    }
+
+    private _deliver(event: (listener: Listener) => any) {
+        // A rejected listener must not stop the delivery of later events
+        this._queue = this._queue
+            .then(async () => {
+                if (this.listener) await event(this.listener);
+            })
+            .catch(() => {});
+    }
+}
+
+/**
+ * Creates a connected pair of in-memory WebSockets, e.g. to test `@WebSocket` services without a server.
+ * @returns The client and the server end
+ */
+export function createWebSocketPair(
+    request: HTTPNormalizedRequest
+): [HTTPMemoryWebSocket, HTTPMemoryWebSocket] {
+    const client = new HTTPMemoryWebSocket(request);
+    const server = new HTTPMemoryWebSocket(request);
+    client.peer = server;
+    server.peer = client;
+    return [client, server];
+}
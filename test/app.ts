@@ -0,0 +1,15 @@
+import { App, type ServiceCtr } from "../../njses";
+import { HTTPModule } from "../src/module";
+import { createTestClient } from "../src/testing";
+
+/**
+ * Constructs the services, the handler service and the http module
+ * @returns The http module, the handler service and a test client dispatching to it
+ */
+export async function createApp(handlerService: ServiceCtr, ...services: ServiceCtr[]) {
+    for (const service of services) await App.construct(service);
+    const handlers = await App.construct(handlerService);
+    const httpModule: HTTPModule = await App.construct(HTTPModule);
+
+    return { httpModule, handlers, client: createTestClient(httpModule, handlers) };
+}
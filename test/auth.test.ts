@@ -0,0 +1,51 @@
+import { beforeAll, describe, it } from "vitest";
+import { apiKeyStrategy, jwtStrategy } from "../src/auth";
+import { GET, Principal } from "../src/decorators";
+import { createAuthService } from "../src/services/auth";
+import type { HTTPTestClient } from "../src/testing";
+import type { HTTPPrincipal } from "../src/types";
+import { createApp } from "./app";
+
+const toBase64URL = (value: object) => Buffer.from(JSON.stringify(value)).toString("base64url");
+
+class Handlers {
+    @GET("/me")
+    me(@Principal principal?: HTTPPrincipal) {
+        return { status: 200, body: { authenticated: !!principal } };
+    }
+}
+
+describe("authentication", () => {
+    let client: HTTPTestClient;
+
+    beforeAll(async () => {
+        const AuthService = createAuthService(
+            jwtStrategy({ keys: ["secret"] }),
+            apiKeyStrategy((key) => (key === "valid" ? { id: "client" } : null))
+        );
+        ({ client } = await createApp(Handlers, AuthService));
+    });
+
+    it("injects no principal into anonymous requests", async () => {
+        await client.get("/me").expect(200, { authenticated: false });
+    });
+
+    it("rejects tokens with a malformed signature", async () => {
+        const token = `${toBase64URL({ alg: "HS256" })}.${toBase64URL({ sub: "1" })}.%%%`;
+
+        await client
+            .get("/me")
+            .set("Authorization", `Bearer ${token}`)
+            .expect(401)
+            .expect("WWW-Authenticate", 'Bearer error="invalid_token"');
+    });
+
+    it("challenges requests with invalid API keys", async () => {
+        await client
+            .get("/me")
+            .set("X-API-Key", "invalid")
+            .expect(401)
+            .expect("WWW-Authenticate", 'ApiKey header="X-API-Key"');
+        await client.get("/me").set("X-API-Key", "valid").expect(200, { authenticated: true });
+    });
+});
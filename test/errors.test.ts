@@ -0,0 +1,52 @@
+import { beforeAll, describe, expect, it } from "vitest";
+import { Catch, GET, HTTP } from "../src/decorators";
+import { HTTPError } from "../src/errors";
+import type { HTTPTestClient } from "../src/testing";
+import { createApp } from "./app";
+
+@HTTP()
+class Transformers {
+    @Catch()
+    transform() {
+        throw new Error("Transformer failed");
+    }
+}
+
+class Handlers {
+    @GET("/fail")
+    fail() {
+        throw new Error("Handler failed");
+    }
+}
+
+describe("errors", () => {
+    let client: HTTPTestClient;
+
+    beforeAll(async () => {
+        ({ client } = await createApp(Handlers, Transformers));
+    });
+
+    it("responds 500, if an error transformer throws", async () => {
+        await client.get("/fail").expect(500);
+    });
+
+    it("keeps the standard problem details members", () => {
+        const error = new HTTPError(
+            {
+                status: 409,
+                body: { message: "Taken", type: "x", title: "y", status: 200, instance: "z", id: 1 },
+            },
+            undefined,
+            "Conflict"
+        );
+
+        expect(error.toProblemDetails("/users")).toEqual({
+            type: "about:blank",
+            title: "Conflict",
+            status: 409,
+            detail: "Taken",
+            instance: "/users",
+            id: 1,
+        });
+    });
+});
@@ -0,0 +1,49 @@
+import { beforeAll, describe, expect, it } from "vitest";
+import { FetchHTTPAdapter, toFetchHandler } from "../src/adapters/fetch";
+import { GET } from "../src/decorators";
+import type { HTTPModule } from "../src/module";
+import type { HTTPNormalizedRequest } from "../src/types";
+import { createApp } from "./app";
+
+class Handlers {
+    @GET("/items")
+    list(request: HTTPNormalizedRequest) {
+        return {
+            status: 200,
+            body: { tag: request.searchParams.get("tag"), theme: request.cookies.theme },
+            cookies: [{ name: "seen", value: "1" }],
+        };
+    }
+}
+
+describe("fetch adapter", () => {
+    let handler: (request: Request) => Promise<Response>;
+
+    beforeAll(async () => {
+        const { httpModule, handlers } = await createApp(Handlers, FetchHTTPAdapter);
+        handler = toFetchHandler(httpModule, handlers);
+    });
+
+    it("handles requests", async () => {
+        const response = await handler(
+            new Request("http://localhost/items?tag=a", { headers: { Cookie: "theme=dark" } })
+        );
+
+        expect(response.status).toBe(200);
+        expect(response.headers.getSetCookie()).toEqual(["seen=1"]);
+        expect(await response.json()).toEqual({ tag: "a", theme: "dark" });
+    });
+
+    it("responds 500 and reports errors, that could not be sent", async () => {
+        const error = new Error("Send failed");
+        const errors: unknown[] = [];
+        const httpModule = { incoming: () => Promise.reject(error) } as unknown as HTTPModule;
+
+        const response = await toFetchHandler(httpModule, {}, (err) => errors.push(err))(
+            new Request("http://localhost/items")
+        );
+
+        expect(response.status).toBe(500);
+        expect(errors).toEqual([error]);
+    });
+});
@@ -0,0 +1,109 @@
+import { readFileSync } from "node:fs";
+import { join } from "node:path";
+import { beforeAll, describe, expect, it } from "vitest";
+import { LambdaHTTPAdapter, toLambdaHandler, type LambdaHTTPEvent } from "../src/adapters/lambda";
+import { HTTP, POST } from "../src/decorators";
+import type { HTTPNormalizedRequest } from "../src/types";
+import { createApp } from "./app";
+
+function fixture(name: string): LambdaHTTPEvent {
+    return JSON.parse(readFileSync(join(__dirname, "fixtures/lambda", name), "utf8"));
+}
+
+@HTTP()
+class Handlers {
+    @POST("/items/:id")
+    update(request: HTTPNormalizedRequest) {
+        return {
+            status: 201,
+            body: {
+                id: request.params.id,
+                tags: request.searchParams.getAll("tag"),
+                q: request.searchParams.get("q"),
+                header: request.headers.get("X-Tag"),
+                cookies: request.cookies,
+                ip: request.ip ?? null,
+                body: Buffer.isBuffer(request.body) ? [...request.body] : request.body,
+            },
+            cookies: [
+                { name: "a", value: "1" },
+                { name: "b", value: "2" },
+            ],
+        };
+    }
+}
+
+describe("lambda adapter", () => {
+    let handler: ReturnType<typeof toLambdaHandler>;
+    const errors: unknown[] = [];
+
+    beforeAll(async () => {
+        const { httpModule, handlers } = await createApp(Handlers, LambdaHTTPAdapter);
+        handler = toLambdaHandler(httpModule, handlers, (err) => errors.push(err));
+    });
+
+    it("handles API Gateway REST API (v1) events", async () => {
+        const result = await handler(fixture("api-gateway-v1.json"));
+
+        expect(result).toMatchObject({
+            statusCode: 201,
+            headers: { "content-type": "application/json" },
+            multiValueHeaders: { "Set-Cookie": ["a=1", "b=2"] },
+            isBase64Encoded: false,
+        });
+        expect(JSON.parse(result.body)).toEqual({
+            id: "42",
+            tags: ["a", "b"],
+            q: "a b",
+            header: "a, b",
+            cookies: { theme: "dark", lang: "en" },
+            ip: "198.51.100.7",
+            body: [0, 1, 2, 3],
+        });
+    });
+
+    it("handles API Gateway HTTP API (v2) events", async () => {
+        const result = await handler(fixture("api-gateway-v2.json"));
+
+        expect(result).toMatchObject({
+            statusCode: 201,
+            headers: { "content-type": "application/json" },
+            cookies: ["a=1", "b=2"],
+            isBase64Encoded: false,
+        });
+        expect(JSON.parse(result.body)).toEqual({
+            id: "42",
+            tags: ["a", "b"],
+            q: "a b",
+            header: "a,b",
+            cookies: { theme: "dark", lang: "en" },
+            ip: "198.51.100.7",
+            body: '{"name":"a"}',
+        });
+    });
+
+    it("handles load balancer events with multi value headers", async () => {
+        const result = await handler(fixture("alb.json"));
+
+        expect(result).toMatchObject({
+            statusCode: 201,
+            multiValueHeaders: { "content-type": ["application/json"], "set-cookie": ["a=1", "b=2"] },
+            isBase64Encoded: false,
+        });
+        expect(result).not.toHaveProperty("headers");
+        expect(JSON.parse(result.body)).toEqual({
+            id: "42",
+            tags: ["a", "b"],
+            q: "a b",
+            header: "a, b",
+            cookies: { theme: "dark", lang: "en" },
+            ip: null,
+            body: "hello",
+        });
+    });
+
+    it("returns a 500 result, if the event cannot be handled", async () => {
+        expect(await handler(null as any)).toEqual({ statusCode: 500, body: "" });
+        expect(errors).toHaveLength(1);
+    });
+});
@@ -0,0 +1,117 @@
+import { createServer, type Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { createNodeHandler, NodeHTTPAdapter } from "../src/adapters/node";
+import { ContentParser, GET, HTTP, POST } from "../src/decorators";
+import type { HTTPNormalizedRequest } from "../src/types";
+import { createApp } from "./app";
+
+@HTTP()
+class Parser {
+    @ContentParser("text/plain", { limit: 8 })
+    parseText(body: Uint8Array) {
+        return new TextDecoder().decode(body);
+    }
+}
+
+class Handlers {
+    @POST("/echo")
+    echo(request: HTTPNormalizedRequest) {
+        return { status: 200, body: request.body };
+    }
+
+    @GET("/cookies")
+    cookies(request: HTTPNormalizedRequest) {
+        return { status: 200, body: Object.entries(request.cookies) };
+    }
+
+    @GET("/stream")
+    stream() {
+        return {
+            status: 200,
+            body: (async function* () {
+                yield "first";
+                throw new Error("Stream failed");
+            })(),
+        };
+    }
+}
+
+describe("node adapter", () => {
+    let server: Server;
+    let url: string;
+    const errors: unknown[] = [];
+
+    beforeAll(async () => {
+        const { httpModule, handlers } = await createApp(Handlers, NodeHTTPAdapter, Parser);
+        server = createServer(createNodeHandler(httpModule, handlers, (err) => errors.push(err)));
+        await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+        url = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    });
+
+    afterAll(async () => {
+        await new Promise((resolve) => server.close(resolve));
+    });
+
+    it("passes the request body to the content parsers", async () => {
+        const response = await fetch(`${url}/echo`, {
+            method: "POST",
+            headers: { "Content-Type": "text/plain" },
+            body: "hello",
+        });
+
+        expect(response.status).toBe(200);
+        expect(await response.text()).toBe("hello");
+    });
+
+    it("accepts requests without body and content type", async () => {
+        const response = await fetch(`${url}/echo`, { method: "POST" });
+
+        expect(response.status).toBe(200);
+        expect(await response.text()).toBe("");
+    });
+
+    it("rejects bodies without content type, if no content parser matches", async () => {
+        const response = await fetch(`${url}/echo`, { method: "POST", body: new Uint8Array([1]) });
+
+        expect(response.status).toBe(415);
+    });
+
+    it("rejects streamed bodies over the limit of the content parser", async () => {
+        const body = new ReadableStream({
+            start(controller) {
+                controller.enqueue(new TextEncoder().encode("hello "));
+                controller.enqueue(new TextEncoder().encode("world"));
+                controller.close();
+            },
+        });
+        const response = await fetch(`${url}/echo`, {
+            method: "POST",
+            headers: { "Content-Type": "text/plain" },
+            body,
+            duplex: "half",
+        } as RequestInit);
+
+        expect(response.status).toBe(413);
+    });
+
+    it("parses cookies named like object members", async () => {
+        const response = await fetch(`${url}/cookies`, {
+            headers: { Cookie: "constructor=a; __proto__=b; toString=c; constructor=d" },
+        });
+
+        expect(await response.json()).toEqual([
+            ["constructor", "a"],
+            ["__proto__", "b"],
+            ["toString", "c"],
+        ]);
+    });
+
+    it("reports errors of streamed response bodies", async () => {
+        const response = await fetch(`${url}/stream`);
+
+        expect(response.status).toBe(200);
+        await expect(response.text()).rejects.toThrow();
+        expect(errors).toEqual([expect.objectContaining({ message: "Stream failed" })]);
+    });
+});
@@ -0,0 +1,34 @@
+import { beforeAll, describe, expect, it } from "vitest";
+import { GET, HTTP } from "../src/decorators";
+import type { HTTPTestClient } from "../src/testing";
+import { createApp } from "./app";
+
+@HTTP({ openapi: { path: "/openapi.json", info: { title: "Test", version: "1" } } })
+class Docs {}
+
+class Handlers {
+    @GET("/users/:id?")
+    getUsers() {
+        return { status: 200 };
+    }
+}
+
+describe("OpenAPI", () => {
+    let client: HTTPTestClient;
+
+    beforeAll(async () => {
+        ({ client } = await createApp(Handlers, Docs));
+    });
+
+    it("assigns unique operation ids to the paths of optional segments", async () => {
+        const response = await client.get("/openapi.json").expect(200);
+
+        expect(response.body.paths["/users/{id}"].get.operationId).toBe("getUsers");
+        expect(response.body.paths["/users"].get.operationId).toBe("getUsers2");
+    });
+
+    it("answers the document route like a handler route", async () => {
+        await client.options("/openapi.json").expect(204).expect("Allow", "GET, HEAD, OPTIONS");
+        await client.post("/openapi.json").expect(405).expect("Allow", "GET, HEAD, OPTIONS");
+    });
+});
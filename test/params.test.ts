@@ -0,0 +1,27 @@
+import { beforeAll, describe, it } from "vitest";
+import { GET, Param } from "../src/decorators";
+import type { HTTPTestClient } from "../src/testing";
+import { createApp } from "./app";
+
+class Handlers {
+    @GET("/files/:id?")
+    file(@Param("id") id?: string) {
+        return { status: 200, body: { id: id ?? null } };
+    }
+}
+
+describe("parameters", () => {
+    let client: HTTPTestClient;
+
+    beforeAll(async () => {
+        ({ client } = await createApp(Handlers));
+    });
+
+    it("injects path parameters", async () => {
+        await client.get("/files/a").expect(200, { id: "a" });
+    });
+
+    it("injects undefined for missing optional path parameters", async () => {
+        await client.get("/files").expect(200, { id: null });
+    });
+});
@@ -0,0 +1,226 @@
+import { beforeAll, beforeEach, describe, expect, it } from "vitest";
+import { Authenticator, CORS, GET, HTTP, Middleware, Receive, Refine, Send, Use } from "../src/decorators";
+import { HTTPConflictError, HTTPForbiddenError } from "../src/errors";
+import type { HTTPModule } from "../src/module";
+import type { HTTPNormalizedRequest, HTTPNormalizedResponse } from "../src/types";
+import { createApp } from "./app";
+
+const calls: string[] = [];
+
+type TestRequest = { method: string; path: string; headers?: Record<string, string> };
+
+@HTTP()
+class Adapter {
+    @Receive
+    receive(request: HTTPNormalizedRequest): Partial<HTTPNormalizedRequest> {
+        calls.push("receive");
+        const { method, path, headers } = request.originalRequest as TestRequest;
+        return { method, path, headers: new Headers(headers) };
+    }
+
+    @Send
+    send(request: HTTPNormalizedRequest, response: HTTPNormalizedResponse) {
+        calls.push("send");
+        return response;
+    }
+}
+
+@HTTP({ priority: 10 })
+class Outer {
+    @Middleware
+    async parse() {
+        await Promise.resolve();
+        calls.push("parse:outer");
+    }
+
+    @Authenticator()
+    authenticate() {
+        calls.push("auth");
+        return undefined;
+    }
+
+    @Use
+    async around(
+        request: HTTPNormalizedRequest,
+        next: (request?: HTTPNormalizedRequest) => Promise<HTTPNormalizedResponse>
+    ) {
+        calls.push("use:outer:before");
+        if (request.headers.has("X-Short-Circuit")) return { status: 418 };
+
+        try {
+            const response = await next();
+            calls.push("use:outer:after");
+            return response;
+        } catch (err) {
+            calls.push("use:outer:caught");
+            throw err;
+        }
+    }
+
+    @Refine
+    refine(request: HTTPNormalizedRequest, response: HTTPNormalizedResponse) {
+        calls.push("refine:outer");
+        return response;
+    }
+
+    @CORS()
+    cors() {
+        calls.push("cors");
+        return { origins: "*" };
+    }
+}
+
+@HTTP()
+class Inner {
+    @Middleware
+    parse() {
+        calls.push("parse:inner");
+    }
+
+    @Use
+    async around(
+        request: HTTPNormalizedRequest,
+        next: (request?: HTTPNormalizedRequest) => Promise<HTTPNormalizedResponse>
+    ) {
+        calls.push("use:inner:before");
+        if (request.headers.get("X-Throw") === "use") throw new HTTPForbiddenError();
+
+        const response = await next();
+        calls.push("use:inner:after");
+        return response;
+    }
+
+    @Refine
+    refine(request: HTTPNormalizedRequest, response: HTTPNormalizedResponse) {
+        calls.push("refine:inner");
+        return response;
+    }
+}
+
+class Handlers {
+    @GET("/items")
+    list(request: HTTPNormalizedRequest) {
+        calls.push("handle");
+        if (request.headers.get("X-Throw") === "handler") throw new HTTPConflictError();
+        return { status: 200, body: [] };
+    }
+}
+
+describe("request pipeline", () => {
+    let httpModule: HTTPModule;
+    let handlers: object;
+
+    const incoming = (request: TestRequest) =>
+        httpModule.incoming(handlers, request) as Promise<HTTPNormalizedResponse>;
+
+    beforeAll(async () => {
+        ({ httpModule, handlers } = await createApp(Handlers, Adapter, Outer, Inner));
+    });
+
+    beforeEach(() => {
+        calls.length = 0;
+    });
+
+    it("runs the phases in order and services by priority", async () => {
+        const response = await incoming({
+            method: "GET",
+            path: "/items",
+            headers: { Origin: "https://a.test" },
+        });
+
+        expect(response.status).toBe(200);
+        expect(response.headers?.get("Access-Control-Allow-Origin")).toBe("*");
+        expect(calls).toEqual([
+            "receive",
+            "parse:outer",
+            "parse:inner",
+            "auth",
+            "use:outer:before",
+            "use:inner:before",
+            "handle",
+            "use:inner:after",
+            "use:outer:after",
+            "refine:outer",
+            "refine:inner",
+            "cors",
+            "send",
+        ]);
+    });
+
+    it("answers preflight requests after the parse phase", async () => {
+        const response = await incoming({
+            method: "OPTIONS",
+            path: "/items",
+            headers: { Origin: "https://a.test", "Access-Control-Request-Method": "GET" },
+        });
+
+        expect(response.status).toBe(204);
+        expect(calls).toEqual(["receive", "parse:outer", "parse:inner", "cors", "send"]);
+    });
+
+    it("skips inner middlewares and the handler, if a middleware short-circuits", async () => {
+        const response = await incoming({
+            method: "GET",
+            path: "/items",
+            headers: { "X-Short-Circuit": "1" },
+        });
+
+        expect(response.status).toBe(418);
+        expect(calls).toEqual([
+            "receive",
+            "parse:outer",
+            "parse:inner",
+            "auth",
+            "use:outer:before",
+            "refine:outer",
+            "refine:inner",
+            "cors",
+            "send",
+        ]);
+    });
+
+    it("rejects outer middlewares and skips the refine phase, if a middleware throws", async () => {
+        const response = await incoming({
+            method: "GET",
+            path: "/items",
+            headers: { Origin: "https://a.test", "X-Throw": "use" },
+        });
+
+        expect(response.status).toBe(403);
+        expect(response.headers?.get("Access-Control-Allow-Origin")).toBe("*");
+        expect(calls).toEqual([
+            "receive",
+            "parse:outer",
+            "parse:inner",
+            "auth",
+            "use:outer:before",
+            "use:inner:before",
+            "use:outer:caught",
+            "cors",
+            "send",
+        ]);
+    });
+
+    it("rejects the middlewares with errors of the handler", async () => {
+        const response = await incoming({
+            method: "GET",
+            path: "/items",
+            headers: { Origin: "https://a.test", "X-Throw": "handler" },
+        });
+
+        expect(response.status).toBe(409);
+        expect(response.headers?.get("Access-Control-Allow-Origin")).toBe("*");
+        expect(calls).toEqual([
+            "receive",
+            "parse:outer",
+            "parse:inner",
+            "auth",
+            "use:outer:before",
+            "use:inner:before",
+            "handle",
+            "use:outer:caught",
+            "cors",
+            "send",
+        ]);
+    });
+});
@@ -0,0 +1,55 @@
+import { beforeAll, describe, expect, it } from "vitest";
+import { GET, RateLimit } from "../src/decorators";
+import { consumeRateLimit, HTTPMemoryRateLimitStore } from "../src/ratelimit";
+import type { HTTPTestClient } from "../src/testing";
+import type { HTTPNormalizedRequest, HTTPRateLimitStore } from "../src/types";
+import { createApp } from "./app";
+
+const memoryStore = new HTTPMemoryRateLimitStore();
+const keys: string[] = [];
+const store: HTTPRateLimitStore = {
+    consume(key, limit) {
+        keys.push(key);
+        return memoryStore.consume(key, limit);
+    },
+};
+
+class Handlers {
+    @GET("/limited")
+    @RateLimit({ window: 60_000, max: 1, store })
+    limited() {
+        return { status: 204 };
+    }
+
+    @GET("/search")
+    @RateLimit({ window: 60_000, max: 10, store, id: "search" })
+    search() {
+        return { status: 204 };
+    }
+}
+
+describe("rate limits", () => {
+    let client: HTTPTestClient;
+
+    beforeAll(async () => {
+        ({ client } = await createApp(Handlers));
+    });
+
+    it("separates the counters of different limits in the shared store", async () => {
+        const request = { ip: "127.0.0.1" } as HTTPNormalizedRequest;
+        const a = { window: 60_000, max: 1 };
+        const b = { window: 60_000, max: 1 };
+
+        expect((await consumeRateLimit(request, a, "a")).allowed).toBe(true);
+        expect((await consumeRateLimit(request, b, "b")).allowed).toBe(true);
+        expect((await consumeRateLimit(request, a, "a")).allowed).toBe(false);
+    });
+
+    it("scopes limits by their id or the route of the handler", async () => {
+        await client.get("/limited").expect(204);
+        await client.get("/limited").expect(429);
+        await client.get("/search").expect(204);
+
+        expect(keys).toEqual(["GET /limited:anonymous", "GET /limited:anonymous", "search:anonymous"]);
+    });
+});
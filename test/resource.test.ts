@@ -0,0 +1,29 @@
+import { beforeAll, describe, it } from "vitest";
+import { Resource } from "../src/decorators";
+import { HTTPMemoryRepository } from "../src/resource";
+import type { HTTPTestClient } from "../src/testing";
+import { createApp } from "./app";
+
+@Resource("/users", new HTTPMemoryRepository([{ id: "1", name: "Max" }]), { operations: ["get", "create"] })
+class Handlers {}
+
+describe("resources", () => {
+    let client: HTTPTestClient;
+
+    beforeAll(async () => {
+        ({ client } = await createApp(Handlers));
+    });
+
+    it("creates entities", async () => {
+        await client
+            .post("/users")
+            .send({ id: "2", name: "Erika" })
+            .expect(201, { id: "2", name: "Erika" })
+            .expect("Location", "/users/2");
+        await client.get("/users/2").expect(200, { id: "2", name: "Erika" });
+    });
+
+    it("rejects creating entities without body", async () => {
+        await client.post("/users").expect(400);
+    });
+});
@@ -0,0 +1,67 @@
+import { beforeAll, describe, it } from "vitest";
+import { Deprecated, GET, HTTP } from "../src/decorators";
+import type { HTTPTestClient } from "../src/testing";
+import { createApp } from "./app";
+
+@HTTP({ version: "1" })
+class V1 {
+    @GET("/orders")
+    orders() {
+        return { status: 200, body: "orders v1" };
+    }
+
+    @GET("/legacy")
+    @Deprecated({ link: "https://example.com/migration" })
+    legacy() {
+        return { status: 204 };
+    }
+}
+
+@HTTP({ version: "2" })
+class V2 {
+    @GET("/users")
+    users() {
+        return { status: 200, body: "users v2" };
+    }
+}
+
+@HTTP({ mount: [V1, V2] })
+class Handlers {}
+
+describe("API versions", () => {
+    let client: HTTPTestClient;
+
+    beforeAll(async () => {
+        ({ client } = await createApp(Handlers, V1, V2));
+    });
+
+    it("selects the version of the path segment", async () => {
+        await client.get("/v2/users").expect(200, "users v2");
+        await client.get("/v1/orders").expect(200, "orders v1");
+    });
+
+    it("falls back to the next older version", async () => {
+        await client.get("/v3/users").expect(200, "users v2");
+        await client.get("/v2/orders").expect(200, "orders v1");
+        await client.get("/users").set("Accept-Version", "3").expect(200, "users v2");
+        await client.get("/orders").set("Accept-Version", "2").expect(200, "orders v1");
+    });
+
+    it("responds 404, if no handler serves the version", async () => {
+        await client.get("/v1/users").expect(404);
+        await client.get("/users").set("Accept-Version", "1").expect(404);
+        await client.options("/v1/users").expect(404);
+    });
+
+    it("sends the date of deprecations", async () => {
+        await client
+            .get("/v1/legacy")
+            .expect(204)
+            .expect("Deprecation", /^@\d+$/)
+            .expect("Link", '<https://example.com/migration>; rel="deprecation"');
+    });
+
+    it("responds 405 with the methods serving the version", async () => {
+        await client.post("/v2/users").expect(405).expect("Allow", "GET, HEAD, OPTIONS");
+    });
+});
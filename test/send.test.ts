@@ -0,0 +1,60 @@
+import { beforeAll, describe, expect, it } from "vitest";
+import { GET, HTTP, OnError, OnResponse, Receive, Send } from "../src/decorators";
+import type { HTTPModule } from "../src/module";
+import type { HTTPNormalizedRequest, HTTPNormalizedResponse } from "../src/types";
+import { createApp } from "./app";
+
+const errors: unknown[] = [];
+const responses: HTTPNormalizedResponse[] = [];
+
+@HTTP()
+class Adapter {
+    @Receive
+    receive(): Partial<HTTPNormalizedRequest> {
+        return { method: "GET", path: "/items", headers: new Headers() };
+    }
+
+    @Send
+    send(request: HTTPNormalizedRequest, response: HTTPNormalizedResponse) {
+        if (response.status === 200) throw new Error("Send failed");
+        return response;
+    }
+}
+
+@HTTP()
+class Hooks {
+    @OnError
+    error(error: unknown) {
+        errors.push(error);
+    }
+
+    @OnResponse
+    response(request: HTTPNormalizedRequest, response: HTTPNormalizedResponse) {
+        responses.push(response);
+    }
+}
+
+class Handlers {
+    @GET("/items")
+    list() {
+        return { status: 200, body: [] };
+    }
+}
+
+describe("send", () => {
+    let httpModule: HTTPModule;
+    let handlers: object;
+
+    beforeAll(async () => {
+        ({ httpModule, handlers } = await createApp(Handlers, Adapter, Hooks));
+    });
+
+    it("completes the error response, if sending fails", async () => {
+        const response = (await httpModule.incoming(handlers, {})) as HTTPNormalizedResponse;
+
+        expect(response.status).toBe(500);
+        expect(response.headers?.get("X-Request-Id")).toBeTruthy();
+        expect(errors).toEqual([expect.objectContaining({ message: "Send failed" })]);
+        expect(responses.map((r) => r.status)).toEqual([200, 500]);
+    });
+});
@@ -0,0 +1,43 @@
+import { beforeAll, describe, expect, it } from "vitest";
+import { GET, HTTP, POST, SessionProvider } from "../src/decorators";
+import { createSessionService } from "../src/services/session";
+import type { HTTPTestClient } from "../src/testing";
+import type { HTTPNormalizedRequest } from "../src/types";
+import { createApp } from "./app";
+
+@HTTP()
+class Users {
+    @SessionProvider
+    provideSession(request: HTTPNormalizedRequest) {
+        return { user: request.sessionHandle?.get("userId") ?? null };
+    }
+}
+
+class Handlers {
+    @POST("/login")
+    login(request: HTTPNormalizedRequest) {
+        request.sessionHandle!.regenerate();
+        request.sessionHandle!.set("userId", "1");
+        return { status: 204 };
+    }
+
+    @GET("/me")
+    me(request: HTTPNormalizedRequest) {
+        return { status: 200, body: request.session };
+    }
+}
+
+describe("sessions", () => {
+    let client: HTTPTestClient;
+
+    beforeAll(async () => {
+        ({ client } = await createApp(Handlers, createSessionService({ secrets: ["secret"] }), Users));
+    });
+
+    it("commits the session cookie, if a session provider replaces the session", async () => {
+        const login = await client.post("/login").expect(204);
+        expect(login.cookies.map((cookie) => cookie.name)).toEqual(["sid"]);
+
+        await client.get("/me").expect(200, { user: "1" });
+    });
+});
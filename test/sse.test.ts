@@ -0,0 +1,32 @@
+import { beforeAll, describe, expect, it } from "vitest";
+import { LastEventID, SSE } from "../src/decorators";
+import type { HTTPTestClient } from "../src/testing";
+import { createApp } from "./app";
+
+class Handlers {
+    @SSE("/events", { heartbeat: 0 })
+    async *events(@LastEventID lastEventId?: string) {
+        yield { id: "2", data: lastEventId === undefined ? "start" : `resume ${lastEventId}` };
+    }
+}
+
+describe("server-sent events", () => {
+    let client: HTTPTestClient;
+
+    beforeAll(async () => {
+        ({ client } = await createApp(Handlers));
+    });
+
+    it("starts streams without last event id", async () => {
+        const res = await client
+            .get("/events")
+            .expect(200)
+            .expect("Content-Type", /^text\/event-stream/);
+        expect(await new Response(res.body).text()).toContain("data: start\n");
+    });
+
+    it("resumes streams from the last event id", async () => {
+        const res = await client.get("/events").set("Last-Event-ID", "1").expect(200);
+        expect(await new Response(res.body).text()).toContain("data: resume 1\n");
+    });
+});
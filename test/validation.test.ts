@@ -0,0 +1,55 @@
+import { beforeAll, describe, expect, it } from "vitest";
+import { Body, GET, POST, Query } from "../src/decorators";
+import type { HTTPTestClient } from "../src/testing";
+import { createSchema } from "../src/validation";
+import { createApp } from "./app";
+
+const ObjectSchema = createSchema((value) =>
+    typeof value === "object" && value !== null
+        ? { value }
+        : { issues: [{ message: `Expected an object, got ${typeof value}` }] }
+);
+
+class Handlers {
+    @POST("/items")
+    create(@Body(ObjectSchema) item: object) {
+        return { status: 201, body: item };
+    }
+
+    @GET("/search")
+    search(@Query() query: Record<string, unknown>) {
+        return { status: 200, body: query };
+    }
+}
+
+describe("validation", () => {
+    let client: HTTPTestClient;
+
+    beforeAll(async () => {
+        ({ client } = await createApp(Handlers));
+    });
+
+    it("validates the body", async () => {
+        await client.post("/items").send({ name: "Max" }).expect(201, { name: "Max" });
+    });
+
+    it("validates a missing body as undefined", async () => {
+        const res = await client.post("/items").expect(422);
+        expect(res.body.errors).toEqual([
+            { source: "body", path: "", message: "Expected an object, got undefined" },
+        ]);
+    });
+
+    it("coerces query values without losing digits", async () => {
+        await client
+            .get("/search?page=2&price=1.5&active=true&id=007&big=9007199254740993&tags[]=a")
+            .expect(200, {
+                page: 2,
+                price: 1.5,
+                active: true,
+                id: "007",
+                big: "9007199254740993",
+                tags: ["a"],
+            });
+    });
+});
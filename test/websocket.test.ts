@@ -0,0 +1,115 @@
+import { createServer, request, type Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import type { Duplex } from "node:stream";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { NodeHTTPAdapter } from "../src/adapters/node";
+import { createNodeUpgradeHandler } from "../src/adapters/websocket";
+import { HTTP, OnClose, OnMessage, WebSocket } from "../src/decorators";
+import type { HTTPTestClient } from "../src/testing";
+import type { HTTPWebSocket, HTTPWebSocketMessage } from "../src/types";
+import { createWebSocketPair } from "../src/websocket";
+import { createApp } from "./app";
+
+@HTTP()
+@WebSocket("/echo")
+class Echo {
+    @OnMessage
+    echo(socket: HTTPWebSocket, message: HTTPWebSocketMessage) {
+        socket.send(message);
+    }
+
+    @OnClose
+    close() {
+        throw new Error("Close failed");
+    }
+}
+
+class Handlers {}
+
+/**
+ * A masked text frame, as sent by clients
+ */
+function createClientFrame(text: string): Buffer {
+    const payload = Buffer.from(text);
+    const mask = Buffer.from([1, 2, 3, 4]);
+    return Buffer.concat([
+        Buffer.from([0x81, 0x80 | payload.byteLength]),
+        mask,
+        payload.map((byte, i) => byte ^ mask[i % 4]),
+    ]);
+}
+
+describe("websockets", () => {
+    let client: HTTPTestClient;
+    let server: Server;
+
+    beforeAll(async () => {
+        const app = await createApp(Handlers, Echo, NodeHTTPAdapter);
+        client = app.client;
+        server = createServer().on("upgrade", createNodeUpgradeHandler(app.httpModule));
+        await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+    });
+
+    afterAll(async () => {
+        await new Promise((resolve) => server.close(resolve));
+    });
+
+    it("upgrades node requests", async () => {
+        const { port } = server.address() as AddressInfo;
+        const socket = await new Promise<Duplex>((resolve, reject) => {
+            request({
+                port,
+                host: "127.0.0.1",
+                path: "/echo",
+                headers: {
+                    Connection: "Upgrade",
+                    Upgrade: "websocket",
+                    "Sec-WebSocket-Key": "dGhlIHNhbXBsZSBub25jZQ==",
+                    "Sec-WebSocket-Version": "13",
+                },
+            })
+                .on("upgrade", (res, socket) => {
+                    expect(res.statusCode).toBe(101);
+                    expect(res.headers["sec-websocket-accept"]).toBe("s3pPLMBiTxaQ9kYGzzhZRbK+xOo=");
+                    resolve(socket);
+                })
+                .on("response", (res) => reject(new Error(`Upgrade failed with ${res.statusCode}`)))
+                .on("error", reject)
+                .end();
+        });
+
+        const frame = new Promise<Buffer>((resolve) => socket.once("data", resolve));
+        socket.write(createClientFrame("ping"));
+        expect([...(await frame)]).toEqual([0x81, 4, ...Buffer.from("ping")]);
+
+        socket.destroy();
+    });
+
+    it("ignores errors of @OnClose", async () => {
+        const socket = await client.websocket("/echo");
+        socket.send("ping");
+        expect(await socket.next()).toBe("ping");
+
+        socket.close(1000);
+        expect(await socket.closed).toEqual({ code: 1000, reason: "" });
+    });
+
+    it("delivers later events, if a listener rejects", async () => {
+        const [a, b] = createWebSocketPair({} as any);
+        const received: HTTPWebSocketMessage[] = [];
+        b.listener = {
+            message: async (message) => {
+                received.push(message);
+                if (message === "fail") throw new Error("Listener failed");
+            },
+            close: () => {},
+        };
+
+        a.send("fail");
+        a.send("ok");
+        a.close();
+        await new Promise((resolve) => setTimeout(resolve, 0));
+
+        expect(received).toEqual(["fail", "ok"]);
+    });
+});